@@ -2,6 +2,12 @@ import { _DEFINE_PROG, _DEFINE_VER } from "vars";
 import { program } from "@commander-js/extra-typings";
 import { addConfigureCommand } from "cmd/configure";
 import { addWebhookCommand } from "cmd/webhook";
+import { addQueueCommand } from "cmd/queue";
+import { addSyncCommand } from "cmd/sync";
+import { addLoginCommand } from "cmd/login";
+import { addDoctorCommand } from "cmd/doctor";
+import { addIdMapCommand } from "cmd/idmap";
+import { addHistoryCommand } from "cmd/history";
 
 program
   .name(_DEFINE_PROG)
@@ -9,7 +15,13 @@ program
   .description("Utility for updating watched status on anilist.");
 
 addConfigureCommand(program);
+addLoginCommand(program);
 addWebhookCommand(program);
+addQueueCommand(program);
+addSyncCommand(program);
+addDoctorCommand(program);
+addIdMapCommand(program);
+addHistoryCommand(program);
 
 program.parse(process.argv);
 
@@ -4,13 +4,21 @@ import {
   Option,
   InvalidArgumentError,
 } from "@commander-js/extra-typings";
-import type { Config } from "lib/config";
+import type {
+  Config,
+  AnilistConfig,
+  EntryPolicy,
+  SeriesMapping,
+  TrackerConfig,
+  TrackerName,
+} from "lib/config";
 import {
   readConfig,
   writeConfig,
   validateConfig,
   configFile,
 } from "lib/config";
+import type { LogLevel } from "lib/logger";
 import { banner, log } from "lib/logger";
 
 /**
@@ -22,11 +30,123 @@ async function configureAction(opts: OptionValues): Promise<void> {
 
   if (opts.webhookBind) config.webhook.bind = `${opts.webhookBind}`;
   if (opts.webhookPort) config.webhook.port = opts.webhookPort as number;
-  if (opts.anilistToken) config.anilist.token = `${opts.anilistToken}`;
+  if (typeof opts.webhookCoalesceDelay == "number")
+    config.webhook.coalesceDelay = opts.webhookCoalesceDelay;
+  if (opts.webhookToken !== undefined) {
+    if (opts.webhookToken) config.webhook.token = `${opts.webhookToken}`;
+    else delete config.webhook.token;
+  }
+  if (opts.webhookAllowedIps !== undefined)
+    config.webhook.allowedIps = `${opts.webhookAllowedIps}`
+      .split(",")
+      .map((cidr) => cidr.trim())
+      .filter((cidr) => cidr.length > 0);
+  if (opts.jellyfinUrl) config.jellyfin.url = `${opts.jellyfinUrl}`;
   if (opts.jellyfinApiKey) config.jellyfin.apiKey = `${opts.jellyfinApiKey}`;
 
+  if (opts.logFormat) config.log.format = opts.logFormat as "text" | "json";
+  if (opts.logLevel) config.log.level = opts.logLevel as LogLevel;
+  if (opts.logFile !== undefined) {
+    if (opts.logFile) config.log.file = `${opts.logFile}`;
+    else delete config.log.file;
+  }
+
+  if (opts.removeUser) delete config.users[`${opts.removeUser}`];
+
+  // tracker options apply to a mapped user when --user is passed
+  let anilistConfig: Partial<AnilistConfig> = config.anilist;
+  let myAnimeListConfig: Partial<TrackerConfig> = config.myanimelist;
+  let kitsuConfig: Partial<TrackerConfig> = config.kitsu;
+  if (opts.user) {
+    const user = `${opts.user}`;
+    if (config.users[user] === undefined) config.users[user] = { anilist: {} };
+    if (config.users[user].anilist === undefined)
+      config.users[user].anilist = {};
+    anilistConfig = config.users[user].anilist;
+    if (opts.myanimelistToken) {
+      if (config.users[user].myanimelist === undefined)
+        config.users[user].myanimelist = {};
+      myAnimeListConfig = config.users[user].myanimelist;
+    }
+    if (opts.kitsuToken) {
+      if (config.users[user].kitsu === undefined) config.users[user].kitsu = {};
+      kitsuConfig = config.users[user].kitsu;
+    }
+  }
+
+  if (opts.trackers !== undefined) {
+    const trackers = `${opts.trackers}`
+      .split(",")
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0) as TrackerName[];
+    if (opts.user) config.users[`${opts.user}`].trackers = trackers;
+    else config.trackers = trackers;
+  }
+  if (opts.myanimelistToken)
+    myAnimeListConfig.token = `${opts.myanimelistToken}`;
+  if (opts.kitsuToken) kitsuConfig.token = `${opts.kitsuToken}`;
+
+  if (opts.anilistToken) anilistConfig.token = `${opts.anilistToken}`;
   if (typeof opts.anilistAutoAdd == "boolean")
-    config.anilist.autoAdd = opts.anilistAutoAdd;
+    anilistConfig.autoAdd = opts.anilistAutoAdd;
+  if (typeof opts.anilistUnscrobble == "boolean")
+    anilistConfig.unscrobble = opts.anilistUnscrobble;
+  if (typeof opts.anilistRewatch == "boolean")
+    anilistConfig.rewatch = opts.anilistRewatch;
+  if (opts.anilistPaused)
+    anilistConfig.paused = opts.anilistPaused as EntryPolicy;
+  if (opts.anilistDropped)
+    anilistConfig.dropped = opts.anilistDropped as EntryPolicy;
+  if (opts.anilistCustomList !== undefined) {
+    if (opts.anilistCustomList)
+      anilistConfig.customList = `${opts.anilistCustomList}`;
+    else delete anilistConfig.customList;
+  }
+  if (typeof opts.anilistSyncRatings == "boolean")
+    anilistConfig.syncRatings = opts.anilistSyncRatings;
+  if (typeof opts.anilistSyncFavourites == "boolean")
+    anilistConfig.syncFavourites = opts.anilistSyncFavourites;
+  if (typeof opts.anilistDryRun == "boolean")
+    anilistConfig.dryRun = opts.anilistDryRun;
+
+  if (opts.addMapping) {
+    if (typeof opts.mappingAnilistId != "number") {
+      banner();
+      log("Pass --mapping-anilist-id together with --add-mapping!", "error");
+      process.exitCode = 1;
+      return;
+    }
+
+    const mapping: SeriesMapping = {
+      seriesId: `${opts.addMapping}`,
+      anilistId: opts.mappingAnilistId,
+    };
+    if (typeof opts.mappingSeason == "number")
+      mapping.season = opts.mappingSeason;
+    if (Array.isArray(opts.mappingEpisodes)) {
+      mapping.firstEpisode = opts.mappingEpisodes[0];
+      mapping.lastEpisode = opts.mappingEpisodes[1];
+    }
+    if (typeof opts.mappingOffset == "number" && opts.mappingOffset != 0)
+      mapping.offset = opts.mappingOffset;
+
+    // replace the mapping for the same series, season and episodes
+    config.mapping = config.mapping.filter(
+      (m) =>
+        m.seriesId != mapping.seriesId ||
+        m.season != mapping.season ||
+        m.firstEpisode != mapping.firstEpisode ||
+        m.lastEpisode != mapping.lastEpisode,
+    );
+    config.mapping.push(mapping);
+  }
+  if (opts.removeMapping)
+    config.mapping = config.mapping.filter(
+      (m) =>
+        m.seriesId != `${opts.removeMapping}` ||
+        (typeof opts.mappingSeason == "number" &&
+          m.season != opts.mappingSeason),
+    );
 
   if (!writeConfig(config)) {
     log(`Failed to update ${configFile}!`, "error");
@@ -35,6 +155,22 @@ async function configureAction(opts: OptionValues): Promise<void> {
     process.exitCode = 1;
   }
 
+  if (opts.listMappings) {
+    banner();
+    if (config.mapping.length == 0) log("No mappings configured.");
+    for (const m of config.mapping) {
+      log(
+        `series ${m.seriesId}` +
+          (m.season !== undefined ? ` season ${m.season}` : "") +
+          (m.firstEpisode !== undefined || m.lastEpisode !== undefined
+            ? ` episodes ${m.firstEpisode ?? 1}-${m.lastEpisode ?? ""}`
+            : "") +
+          ` -> anime (${m.anilistId})` +
+          (m.offset ? ` with episode offset ${m.offset}` : ""),
+      );
+    }
+  }
+
   if (opts.dump) {
     banner();
     console.log(JSON.stringify(config, null, 2));
@@ -66,7 +202,64 @@ export function addConfigureCommand(program: Command): void {
         return valueNumber;
       }),
     )
+    .addOption(
+      new Option(
+        "--webhook-coalesce-delay <seconds>",
+        "optional seconds to wait for more episodes marked as played before scrobbling them at once, 0 disables (default to 10)",
+      ).argParser((value: string) => {
+        const valueNumber = parseInt(value, 10);
+
+        if (isNaN(valueNumber) || valueNumber < 0)
+          throw new InvalidArgumentError(
+            "Specified delay is not a positive number.",
+          );
+
+        return valueNumber;
+      }),
+    )
+    .option(
+      "--webhook-token <token>",
+      "optional shared secret clients must send as X-Webhook-Token header or token query parameter (empty to disable)",
+    )
+    .option(
+      "--webhook-allowed-ips <cidrs>",
+      "optional comma separated IP addresses and CIDR ranges allowed to call the webhook (empty to allow all)",
+    )
+    .option(
+      "--jellyfin-url <url>",
+      "optional jellyfin URL, used by commands that are not triggered by a webhook",
+    )
     .option("--jellyfin-api-key <api_key>", "jellyfin API key")
+    .addOption(
+      new Option("--log-format <format>", "optional log format").choices([
+        "text",
+        "json",
+      ]),
+    )
+    .addOption(
+      new Option(
+        "--log-level <level>",
+        "optional minimum level of messages to log",
+      ).choices(["debug", "info", "warn", "error"]),
+    )
+    .option(
+      "--log-file <path>",
+      "optional file to also write logs to, rotated when it grows too large (empty to disable)",
+    )
+    .option(
+      "--user <user>",
+      "apply the tracker options to this Jellyfin user (UserId or username) instead of globally",
+    )
+    .option("--remove-user <user>", "remove a Jellyfin user mapping")
+    .option(
+      "--trackers <names>",
+      "comma separated trackers to scrobble to: anilist, myanimelist, kitsu (default to anilist)",
+    )
+    .option(
+      "--myanimelist-token <token>",
+      "your myanimelist OAuth access token",
+    )
+    .option("--kitsu-token <token>", "your kitsu OAuth access token")
     .option("--anilist-token <token>", "your anilist http client token")
     .option(
       "--anilist-auto-add",
@@ -76,6 +269,117 @@ export function addConfigureCommand(program: Command): void {
       "--no-anilist-auto-add",
       "do not add anime to watchlist after finishing episode 1; progress will still be tracked",
     )
+    .option(
+      "--anilist-unscrobble",
+      "lower progress on anilist when an episode is marked as unplayed",
+    )
+    .option("--no-anilist-unscrobble", "ignore episodes marked as unplayed")
+    .option(
+      "--anilist-rewatch",
+      "track rewatches of completed anime after finishing episode 1",
+    )
+    .option(
+      "--no-anilist-rewatch",
+      "ignore episodes of anime that are already completed",
+    )
+    .addOption(
+      new Option(
+        "--anilist-paused <policy>",
+        "resume paused anime on the next episode, restart them from episode 1 or ignore them",
+      ).choices(["resume", "restart", "ignore"]),
+    )
+    .addOption(
+      new Option(
+        "--anilist-dropped <policy>",
+        "resume dropped anime on the next episode, restart them from episode 1 or ignore them",
+      ).choices(["resume", "restart", "ignore"]),
+    )
+    .option(
+      "--anilist-custom-list <name>",
+      "also add automatically added anime to this custom list (empty to disable)",
+    )
+    .option(
+      "--anilist-sync-ratings",
+      "set the score on anilist when a series or movie is rated in jellyfin",
+    )
+    .option("--no-anilist-sync-ratings", "ignore ratings from jellyfin")
+    .option(
+      "--anilist-sync-favourites",
+      "favourite series and movies on anilist when they are favorited in jellyfin",
+    )
+    .option("--no-anilist-sync-favourites", "ignore favorites from jellyfin")
+    .option(
+      "--anilist-dry-run",
+      "do not send updates to anilist, only log the updates that would have been sent",
+    )
+    .option("--no-anilist-dry-run", "send updates to anilist")
+    .option(
+      "--add-mapping <seriesId>",
+      "map a Jellyfin series to an anilist ID, requires --mapping-anilist-id",
+    )
+    .option(
+      "--remove-mapping <seriesId>",
+      "remove the mappings of a Jellyfin series (only of --mapping-season if passed)",
+    )
+    .option("--list-mappings", "list the series mappings")
+    .addOption(
+      new Option(
+        "--mapping-anilist-id <id>",
+        "anilist ID to map the series to",
+      ).argParser((value: string) => {
+        const valueNumber = parseInt(value, 10);
+
+        if (isNaN(valueNumber) || valueNumber < 1)
+          throw new InvalidArgumentError(
+            "Specified anilist ID is not a positive number.",
+          );
+
+        return valueNumber;
+      }),
+    )
+    .addOption(
+      new Option(
+        "--mapping-season <season>",
+        "only map this season of the series, the anilist ID is the entry of that season",
+      ).argParser((value: string) => {
+        const valueNumber = parseInt(value, 10);
+
+        if (isNaN(valueNumber) || valueNumber < 0)
+          throw new InvalidArgumentError(
+            "Specified season is not a positive number.",
+          );
+
+        return valueNumber;
+      }),
+    )
+    .addOption(
+      new Option(
+        "--mapping-episodes <first-last>",
+        "only map this range of episodes, e.g. 13-24",
+      ).argParser((value: string) => {
+        const match = value.match(/^(\d+)-(\d+)$/);
+
+        if (!match || parseInt(match[1], 10) > parseInt(match[2], 10))
+          throw new InvalidArgumentError(
+            "Specified range is not a valid range of episodes.",
+          );
+
+        return [parseInt(match[1], 10), parseInt(match[2], 10)];
+      }),
+    )
+    .addOption(
+      new Option(
+        "--mapping-offset <offset>",
+        "added to the episode number, e.g. -12 for episodes 13-24 of a season using absolute numbering",
+      ).argParser((value: string) => {
+        const valueNumber = parseInt(value, 10);
+
+        if (isNaN(valueNumber))
+          throw new InvalidArgumentError("Specified offset is not a number.");
+
+        return valueNumber;
+      }),
+    )
     .option("--dump", "dump configuration")
     .action(configureAction);
 }
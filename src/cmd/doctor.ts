@@ -0,0 +1,470 @@
+import type {
+  Config,
+  AnilistConfig,
+  SeriesMapping,
+  TrackerConfig,
+  TrackerName,
+} from "lib/config";
+import type { Tracker } from "lib/tracker";
+import type { AnimeListEntry } from "lib/scrobbler";
+import type { PayloadAnilistId } from "cmd/webhook/resolve";
+
+import {
+  Command,
+  Option,
+  InvalidArgumentError,
+} from "@commander-js/extra-typings";
+import {
+  readConfig,
+  validateConfig,
+  getUserTrackerConfigs,
+  configFile,
+  ANY_USER,
+} from "lib/config";
+import { banner, log } from "lib/logger";
+import { AnilistScrobbler } from "lib/scrobbler";
+import { createTrackers } from "lib/trackers";
+import { JellyfinMiniApi } from "lib/jellyfin/api";
+import { resolveTrackerId } from "cmd/webhook/resolve";
+
+/**
+ * Type for the outcome of a doctor check
+ * @property name - short name of the check
+ * @property passed - true if the check passed
+ * @property message - what was found
+ * @property fix - suggestion to fix a failed check
+ */
+type DoctorCheck = {
+  name: string;
+  passed: boolean;
+  message: string;
+  fix?: string;
+};
+
+/**
+ * Print the outcome of a doctor check
+ * @param check - the check to print
+ * @return {boolean} true if the check passed
+ */
+function report(check: DoctorCheck): boolean {
+  log(`${check.name}: ${check.message}`, check.passed ? "done" : "error");
+  if (!check.passed && check.fix) log(`${check.name}: fix: ${check.fix}`);
+  return check.passed;
+}
+
+/**
+ * Check if a token authenticates to anilist
+ * @async
+ * @param user - user the anilist configuration belongs to
+ * @param anilistConfig - anilist configuration of the user
+ * @return {DoctorCheck} outcome and the scrobbler on success
+ */
+async function checkAnilist(
+  user: string,
+  anilistConfig: AnilistConfig,
+): Promise<DoctorCheck & { scrobbler?: AnilistScrobbler }> {
+  const name = user == ANY_USER ? "anilist" : `anilist (${user})`;
+  const configureHint =
+    user == ANY_USER
+      ? "run login, or configure --anilist-token"
+      : `run login --user ${user}, or configure --user ${user} --anilist-token`;
+
+  if (anilistConfig.token === undefined)
+    return { name, passed: false, message: "no token", fix: configureHint };
+
+  const expires = anilistConfig.tokenExpires
+    ? new Date(anilistConfig.tokenExpires)
+    : undefined;
+  if (expires !== undefined && expires < new Date())
+    return {
+      name,
+      passed: false,
+      message: `token expired on ${anilistConfig.tokenExpires}`,
+      fix: configureHint,
+    };
+
+  const scrobbler = new AnilistScrobbler(anilistConfig, user);
+  try {
+    await scrobbler.init();
+  } catch (error) {
+    return {
+      name,
+      passed: false,
+      message: `authentication failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      fix: `check that the token is valid and not revoked, ${configureHint}`,
+    };
+  }
+
+  return {
+    name,
+    passed: true,
+    message:
+      `authenticated as ${scrobbler.profile}, ` +
+      (expires
+        ? `token expires at ${anilistConfig.tokenExpires}`
+        : "token expiry unknown"),
+    scrobbler,
+  };
+}
+
+/**
+ * Check if a token authenticates to myanimelist or kitsu
+ * @async
+ * @param user - user the tracker configuration belongs to
+ * @param name - name of the tracker
+ * @param trackerConfig - tracker configuration of the user
+ * @return {DoctorCheck} outcome and the tracker on success
+ */
+async function checkTracker(
+  user: string,
+  name: Exclude<TrackerName, "anilist">,
+  trackerConfig: TrackerConfig,
+): Promise<DoctorCheck & { tracker?: Tracker }> {
+  const checkName = user == ANY_USER ? name : `${name} (${user})`;
+  const configureHint =
+    user == ANY_USER
+      ? `configure --${name}-token`
+      : `configure --user ${user} --${name}-token`;
+
+  if (trackerConfig.token === undefined)
+    return {
+      name: checkName,
+      passed: false,
+      message: "no token",
+      fix: configureHint,
+    };
+
+  const tracker = createTrackers({ [name]: trackerConfig }, user)[0];
+  try {
+    await tracker.init();
+  } catch (error) {
+    return {
+      name: checkName,
+      passed: false,
+      message: `authentication failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      fix: `check that the token is valid and not expired, ${configureHint}`,
+    };
+  }
+
+  return {
+    name: checkName,
+    passed: true,
+    message: `authenticated as ${tracker.profile}`,
+    tracker,
+  };
+}
+
+/**
+ * Check if jellyfin is reachable and accepts the API key
+ * @async
+ * @param api - jellyfin api instance
+ * @param url - jellyfin URL
+ * @return {DoctorCheck} outcome
+ */
+async function checkJellyfin(
+  api: JellyfinMiniApi,
+  url: string,
+): Promise<DoctorCheck> {
+  const name = "jellyfin";
+  if (!(await api.ping()))
+    return {
+      name,
+      passed: false,
+      message: `${url} is not reachable`,
+      fix: "check that jellyfin is running, or configure --jellyfin-url",
+    };
+
+  try {
+    const users = await api.getUsers();
+    return {
+      name,
+      passed: true,
+      message: `${url} is reachable, API key accepted (${users.length} users)`,
+    };
+  } catch {
+    return {
+      name,
+      passed: false,
+      message: `${url} rejected the API key`,
+      fix: "create a new API key in the jellyfin dashboard and run configure --jellyfin-api-key",
+    };
+  }
+}
+
+/**
+ * Check if the webhook port can be bound
+ * @param bind - address to bind to
+ * @param port - port to bind to
+ * @return {DoctorCheck} outcome
+ */
+async function checkWebhookPort(
+  bind: string,
+  port: number,
+): Promise<DoctorCheck> {
+  const name = "webhook";
+  try {
+    const server = Bun.serve({
+      port: port,
+      hostname: bind,
+      fetch() {
+        return new Response();
+      },
+    });
+    await server.stop(true);
+  } catch (error) {
+    return {
+      name,
+      passed: false,
+      message: `cannot bind ${bind}:${port}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      fix: "stop the webhook if it is already running, or configure --webhook-bind and --webhook-port",
+    };
+  }
+
+  return { name, passed: true, message: `${bind}:${port} can be bound` };
+}
+
+/**
+ * Check which anime ID and list entry a series resolves to on each tracker
+ * @async
+ * @param api - jellyfin api instance
+ * @param seriesId - jellyfin series ID
+ * @param season - season number
+ * @param mappings - manual series mappings from the configuration
+ * @param trackers - authenticated trackers keyed by user
+ * @return {DoctorCheck[]} outcome, one per user and tracker when resolved
+ */
+async function checkSeries(
+  api: JellyfinMiniApi,
+  seriesId: string,
+  season: number,
+  mappings: SeriesMapping[],
+  trackers: { [user: string]: Tracker[] },
+): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  const resolvedIds: { [provider: string]: PayloadAnilistId | undefined } = {};
+  for (const [user, userTrackers] of Object.entries(trackers)) {
+    for (const tracker of userTrackers) {
+      const name = `series ${seriesId} (${tracker.name}${user == ANY_USER ? "" : `, ${user}`})`;
+
+      // the anime ID only depends on the provider, look it up once
+      if (!(tracker.provider in resolvedIds)) {
+        try {
+          resolvedIds[tracker.provider] = await resolveTrackerId(
+            {
+              ItemId: seriesId,
+              SeriesId: seriesId,
+              SeasonId: "",
+              SeasonNumber: season,
+              EpisodeNumber: 1,
+            },
+            api,
+            tracker.provider,
+            mappings,
+          );
+        } catch (error) {
+          checks.push({
+            name,
+            passed: false,
+            message: `lookup failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+            fix: "check the jellyfin checks above",
+          });
+          continue;
+        }
+      }
+
+      const resolvedId = resolvedIds[tracker.provider];
+      if (resolvedId === undefined) {
+        checks.push({
+          name,
+          passed: false,
+          message: `no ${tracker.name} ID found`,
+          fix:
+            tracker instanceof AnilistScrobbler
+              ? "install the jellyfin AniList metadata plugin and identify the series"
+              : `set the ${tracker.provider} provider ID on the series in jellyfin`,
+        });
+        continue;
+      }
+
+      let animeId = resolvedId.id;
+      let entry: AnimeListEntry | undefined;
+      try {
+        if (tracker instanceof AnilistScrobbler) {
+          const resolved = await tracker.resolveSeason(
+            resolvedId.id,
+            resolvedId.episode,
+            resolvedId.season,
+          );
+          if (resolved === undefined) {
+            checks.push({
+              name,
+              passed: false,
+              message: `season ${resolvedId.season} of anime (${resolvedId.id}) could not be resolved`,
+              fix: "set the anilist ID on the season in jellyfin",
+            });
+            continue;
+          }
+          animeId = resolved[0].id;
+        } else if (resolvedId.season != 1) {
+          checks.push({
+            name,
+            passed: false,
+            message: `season ${resolvedId.season} of anime (${resolvedId.id}) cannot be scrobbled to ${tracker.name}`,
+            fix: `set the ${tracker.provider} provider ID on the season in jellyfin`,
+          });
+          continue;
+        }
+
+        entry = await tracker.getListEntry(animeId);
+      } catch (error) {
+        checks.push({
+          name,
+          passed: false,
+          message: `${tracker.name} lookup of anime (${animeId}) failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          fix: `check the ${tracker.name} checks above`,
+        });
+        continue;
+      }
+
+      checks.push({
+        name,
+        passed: true,
+        message:
+          `season ${season} resolves to anime (${animeId}), ` +
+          (entry
+            ? `list entry ${entry.status} with progress ${entry.progress}`
+            : "not on list"),
+      });
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Entrypoint `doctor` action for commander-js
+ * @param opts - OptionValues from commander-js
+ */
+async function doctorAction(opts: {
+  user?: string;
+  jellyfinUrl?: string;
+  series?: string;
+  season: number;
+}): Promise<void> {
+  banner();
+  const config: Config = readConfig();
+  const valid = validateConfig(config, true);
+  let healthy = report({
+    name: "config",
+    passed: valid,
+    message: `${configFile} ${valid ? "is valid" : "has errors, see above"}`,
+    fix: "correct the reported errors with configure",
+  });
+
+  const trackerConfigs = getUserTrackerConfigs(config);
+  if (opts.user !== undefined && trackerConfigs[opts.user] === undefined) {
+    log(`User ${opts.user} is not mapped!`, "error");
+    process.exitCode = 1;
+    return;
+  }
+
+  const trackers: { [user: string]: Tracker[] } = {};
+  for (const [user, userConfigs] of Object.entries(trackerConfigs)) {
+    if (opts.user !== undefined && user != opts.user) continue;
+
+    trackers[user] = [];
+    if (userConfigs.anilist !== undefined) {
+      const check = await checkAnilist(user, userConfigs.anilist);
+      if (check.scrobbler) trackers[user].push(check.scrobbler);
+      healthy = report(check) && healthy;
+    }
+    for (const name of ["myanimelist", "kitsu"] as const) {
+      if (userConfigs[name] === undefined) continue;
+      const check = await checkTracker(user, name, userConfigs[name]);
+      if (check.tracker) trackers[user].push(check.tracker);
+      healthy = report(check) && healthy;
+    }
+  }
+
+  const jellyfinUrl = opts.jellyfinUrl ?? config.jellyfin.url;
+  let api: JellyfinMiniApi | undefined;
+  if (jellyfinUrl === undefined) {
+    log(
+      "jellyfin: skipped, no URL configured, pass --jellyfin-url or configure --jellyfin-url",
+      "warn",
+    );
+  } else if (config.jellyfin.apiKey === undefined) {
+    healthy =
+      report({
+        name: "jellyfin",
+        passed: false,
+        message: "no API key",
+        fix: "run configure --jellyfin-api-key",
+      }) && healthy;
+  } else {
+    api = new JellyfinMiniApi(jellyfinUrl, config.jellyfin.apiKey);
+    const check = await checkJellyfin(api, jellyfinUrl);
+    if (!check.passed) api = undefined;
+    healthy = report(check) && healthy;
+  }
+
+  healthy =
+    report(await checkWebhookPort(config.webhook.bind, config.webhook.port)) &&
+    healthy;
+
+  if (opts.series !== undefined) {
+    if (api === undefined) {
+      log(`series ${opts.series}: skipped, jellyfin is not available`, "warn");
+    } else {
+      for (const check of await checkSeries(
+        api,
+        opts.series,
+        opts.season,
+        config.mapping,
+        trackers,
+      ))
+        healthy = report(check) && healthy;
+    }
+  }
+
+  if (!healthy) process.exitCode = 1;
+}
+
+/**
+ * Setup `doctor` command for commander-js
+ * @param program - commander program
+ */
+export function addDoctorCommand(program: Command): void {
+  program
+    .command("doctor")
+    .description("check the tracker, jellyfin and webhook setup end to end")
+    .option(
+      "--user <user>",
+      "only check the tracker tokens of this mapped user (UserId or username)",
+    )
+    .option(
+      "--jellyfin-url <url>",
+      "jellyfin URL (defaults to the configured URL)",
+    )
+    .option(
+      "--series <id>",
+      "show the anime ID and list entry this jellyfin series resolves to on each tracker",
+    )
+    .addOption(
+      new Option("--season <season>", "season of the series to resolve")
+        .default(1)
+        .argParser((value: string) => {
+          const valueNumber = parseInt(value, 10);
+
+          if (isNaN(valueNumber) || valueNumber < 1)
+            throw new InvalidArgumentError(
+              "Specified season is not a positive number.",
+            );
+
+          return valueNumber;
+        }),
+    )
+    .action(doctorAction);
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
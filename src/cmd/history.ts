@@ -0,0 +1,182 @@
+import type { HistoryRecord } from "lib/history";
+import type { TrackerName } from "lib/config";
+
+import {
+  Command,
+  Option,
+  InvalidArgumentError,
+} from "@commander-js/extra-typings";
+import { banner, log } from "lib/logger";
+import { TRACKER_NAMES } from "lib/config";
+import { ScrobbleHistory, historyFile } from "lib/history";
+
+/**
+ * Parse a date option
+ * @param value - date as passed on the command line
+ * @return {number} timestamp (ms)
+ */
+function parseDate(value: string): number {
+  const date = new Date(value);
+  if (isNaN(date.getTime()))
+    throw new InvalidArgumentError("Specified date is not a valid date.");
+
+  return date.getTime();
+}
+
+/**
+ * Format history records as a table
+ * @param records - history records
+ * @return {string} table with a header row
+ */
+function formatTable(records: HistoryRecord[]): string {
+  const rows = [
+    [
+      "TIME",
+      "USER",
+      "EVENT",
+      "SERIES",
+      "EPISODE",
+      "TRACKER",
+      "ID",
+      "RESULT",
+      "MESSAGE",
+    ],
+    ...records.map((r) => [
+      new Date(r.timestamp).toISOString(),
+      r.user,
+      r.event,
+      r.series ?? r.seriesId ?? "",
+      r.episode !== undefined ? `S${r.season ?? "?"}E${r.episode}` : "",
+      r.tracker,
+      r.anilistId !== undefined ? `${r.anilistId}` : "",
+      r.result.success ? "success" : r.result.level,
+      r.result.message,
+    ]),
+  ];
+
+  // the message is not padded, it is the last column
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length)),
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) => (i < row.length - 1 ? cell.padEnd(widths[i]) : cell))
+        .join("  "),
+    )
+    .join("\n");
+}
+
+/**
+ * Entrypoint `history` action for commander-js
+ * @param opts - OptionValues from commander-js
+ */
+async function historyAction(opts: {
+  user?: string;
+  tracker?: string;
+  series?: string;
+  anilistId?: number;
+  level?: string;
+  since?: number;
+  until?: number;
+  limit: number;
+  json?: boolean;
+}): Promise<void> {
+  const history = new ScrobbleHistory();
+  const records = history.find({
+    user: opts.user,
+    tracker: opts.tracker as TrackerName | undefined,
+    series: opts.series,
+    anilistId: opts.anilistId,
+    level: opts.level as HistoryRecord["result"]["level"] | undefined,
+    since: opts.since,
+    until: opts.until,
+    limit: opts.limit,
+  });
+  history.close();
+
+  if (opts.json) {
+    console.log(JSON.stringify(records, null, 2));
+    return;
+  }
+
+  banner();
+  if (records.length == 0) {
+    log(`No matching events in ${historyFile}.`);
+    return;
+  }
+
+  console.log(formatTable(records));
+}
+
+/**
+ * Setup `history` command for commander-js
+ * @param program - commander program
+ */
+export function addHistoryCommand(program: Command): void {
+  program
+    .command("history")
+    .description("show the history of handled events, newest first")
+    .option("--user <user>", "only show events of this user")
+    .addOption(
+      new Option(
+        "--tracker <tracker>",
+        "only show events of this tracker",
+      ).choices(TRACKER_NAMES),
+    )
+    .option(
+      "--series <series>",
+      "only show events of this Jellyfin series ID, or series with a name containing this",
+    )
+    .addOption(
+      new Option(
+        "--anilist-id <id>",
+        "only show events of this anime ID",
+      ).argParser((value: string) => {
+        const valueNumber = parseInt(value, 10);
+
+        if (isNaN(valueNumber))
+          throw new InvalidArgumentError(
+            "Specified anilist ID is not a number.",
+          );
+
+        return valueNumber;
+      }),
+    )
+    .addOption(
+      new Option(
+        "--level <level>",
+        "only show events with this result level",
+      ).choices(["info", "warn", "error"]),
+    )
+    .addOption(
+      new Option(
+        "--since <date>",
+        "only show events since this date, e.g. 2024-05-01",
+      ).argParser(parseDate),
+    )
+    .addOption(
+      new Option(
+        "--until <date>",
+        "only show events before this date, e.g. 2024-06-01",
+      ).argParser(parseDate),
+    )
+    .addOption(
+      new Option("--limit <count>", "maximum number of events to show")
+        .default(50)
+        .argParser((value: string) => {
+          const valueNumber = parseInt(value, 10);
+
+          if (isNaN(valueNumber) || valueNumber < 1)
+            throw new InvalidArgumentError(
+              "Specified limit is not a positive number.",
+            );
+
+          return valueNumber;
+        }),
+    )
+    .option("--json", "output as JSON")
+    .action(historyAction);
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
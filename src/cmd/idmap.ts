@@ -0,0 +1,76 @@
+import { Command } from "@commander-js/extra-typings";
+import { banner, log } from "lib/logger";
+import { ID_MAP_SOURCE, idMapFile, loadIdMap, refreshIdMap } from "lib/idmap";
+
+/**
+ * Entrypoint `idmap refresh` action for commander-js
+ * @param source - path or URL of the dataset
+ */
+async function idMapRefreshAction(source: string): Promise<void> {
+  banner();
+  log(`Refreshing ${idMapFile} from ${source} ...`, "step");
+
+  try {
+    const count = await refreshIdMap(source);
+    log(`ID map updated with ${count} anilist IDs.`, "done");
+  } catch (error) {
+    log(
+      `Failed to refresh ID map: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "error",
+    );
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Entrypoint `idmap info` action for commander-js
+ */
+async function idMapInfoAction(): Promise<void> {
+  banner();
+
+  try {
+    const idMap = loadIdMap();
+    if (idMap === undefined) {
+      log(
+        `No usable ID map found at ${idMapFile}, run idmap refresh first.`,
+        "warn",
+      );
+      return;
+    }
+
+    log(`${idMapFile} contains ${idMap.size} anilist IDs.`);
+  } catch (error) {
+    log(
+      `Failed to load ID map: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "error",
+    );
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Setup `idmap` command for commander-js
+ * @param program - commander program
+ */
+export function addIdMapCommand(program: Command): void {
+  const idmap = program
+    .command("idmap")
+    .description(
+      "manage the offline map of AniDB, TVDB and TMDB IDs to anilist IDs",
+    );
+
+  idmap
+    .command("refresh")
+    .description(
+      "refresh the ID map from a Fribb anime-lists or anime-offline-database file",
+    )
+    .argument("[source]", "path or URL of the dataset", ID_MAP_SOURCE)
+    .action(idMapRefreshAction);
+
+  idmap
+    .command("info")
+    .description("show the number of anilist IDs in the ID map")
+    .action(idMapInfoAction);
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
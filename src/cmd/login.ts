@@ -0,0 +1,159 @@
+import type { Server } from "bun";
+import type { Config, AnilistConfig } from "lib/config";
+
+import {
+  Command,
+  Option,
+  InvalidArgumentError,
+} from "@commander-js/extra-typings";
+import { readConfig, writeConfig, configFile } from "lib/config";
+import { banner, log } from "lib/logger";
+import { AnilistScrobbler } from "lib/scrobbler";
+import { getAuthorizeUrl, exchangeCode } from "lib/anilist/oauth";
+
+const CALLBACK_TIMEOUT: number = 5 * 60 * 1000;
+
+/**
+ * Wait for the authorization code on a temporary local callback server
+ * @async
+ * @param port - port to listen on
+ * @return {string} the authorization code
+ */
+async function waitForCode(port: number): Promise<string> {
+  return await new Promise<string>((resolve, reject) => {
+    // a failing bind (e.g. port in use) rejects the promise before the timeout is started
+    const server: Server = Bun.serve({
+      port: port,
+      hostname: "localhost",
+      fetch(req: Request) {
+        const url = new URL(req.url);
+        if (url.pathname != "/callback")
+          return new Response("Not found", { status: 404 });
+
+        const code = url.searchParams.get("code");
+        clearTimeout(timer);
+        setTimeout(() => void server.stop(), 100);
+        if (code) {
+          resolve(code);
+          return new Response(
+            "Authorization received, you can close this window.",
+          );
+        } else {
+          reject(
+            new Error(
+              `Authorization failed: ${url.searchParams.get("error_description") ?? url.searchParams.get("error") ?? "no code received"}`,
+            ),
+          );
+          return new Response("Authorization failed.", { status: 400 });
+        }
+      },
+    });
+
+    const timer = setTimeout(() => {
+      void server.stop();
+      reject(new Error("Timed out waiting for the authorization."));
+    }, CALLBACK_TIMEOUT);
+  });
+}
+
+/**
+ * Entrypoint `login` action for commander-js
+ * @param opts - OptionValues from commander-js
+ */
+async function loginAction(opts: {
+  clientId: string;
+  clientSecret: string;
+  port: number;
+  user?: string;
+}): Promise<void> {
+  banner();
+  const config: Config = readConfig();
+  const redirectUri = `http://localhost:${opts.port}/callback`;
+
+  log(`Make sure ${redirectUri} is the Redirect URL of your anilist client.`);
+  log(
+    `Open the following URL to authorize: ${getAuthorizeUrl(opts.clientId, redirectUri)}`,
+  );
+
+  try {
+    const code = await waitForCode(opts.port);
+    const token = await exchangeCode(
+      opts.clientId,
+      opts.clientSecret,
+      redirectUri,
+      code,
+    );
+
+    // anilist options apply to a mapped user when --user is passed
+    let anilistConfig: Partial<AnilistConfig> = config.anilist;
+    if (opts.user) {
+      if (config.users[opts.user] === undefined)
+        config.users[opts.user] = { anilist: {} };
+      if (config.users[opts.user].anilist === undefined)
+        config.users[opts.user].anilist = {};
+      anilistConfig = config.users[opts.user].anilist;
+    }
+    anilistConfig.token = token.accessToken;
+    anilistConfig.tokenExpires = token.expiresAt.toISOString();
+
+    const scrobbler = new AnilistScrobbler({
+      ...config.anilist,
+      ...anilistConfig,
+    } as AnilistConfig);
+    await scrobbler.init();
+
+    if (!writeConfig(config)) {
+      log(`Failed to update ${configFile}!`, "error");
+      process.exitCode = 1;
+      return;
+    }
+
+    log(
+      `Logged in as ${scrobbler.profile}${opts.user ? ` for user ${opts.user}` : ""}, token expires at ${anilistConfig.tokenExpires}.`,
+      "done",
+    );
+  } catch (error) {
+    log(
+      `Login failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "error",
+    );
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Setup `login` command for commander-js
+ * @param program - commander program
+ */
+export function addLoginCommand(program: Command): void {
+  program
+    .command("login")
+    .description("obtain an anilist token using the OAuth authorization flow")
+    .requiredOption("--client-id <id>", "your anilist API client ID")
+    .requiredOption(
+      "--client-secret <secret>",
+      "your anilist API client secret",
+    )
+    .addOption(
+      new Option(
+        "--port <port>",
+        "port for the temporary local callback server",
+      )
+        .default(4090)
+        .argParser((value: string) => {
+          const valueNumber = parseInt(value, 10);
+
+          if (isNaN(valueNumber))
+            throw new InvalidArgumentError("Specified port is not a number.");
+
+          return valueNumber;
+        }),
+    )
+    .option(
+      "--user <user>",
+      "store the token for this Jellyfin user (UserId or username) instead of globally",
+    )
+    .action(loginAction);
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
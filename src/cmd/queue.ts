@@ -0,0 +1,201 @@
+import type { Config } from "lib/config";
+import type { QueueItem } from "lib/queue";
+import type { Tracker } from "lib/tracker";
+
+import { Command } from "@commander-js/extra-typings";
+import { readConfig, validateConfig, getUserTrackerConfigs } from "lib/config";
+import { banner, log } from "lib/logger";
+import { createTrackers } from "lib/trackers";
+import { ScrobbleQueue, queueFile } from "lib/queue";
+
+/**
+ * Select queue items by ID
+ * @param queue - scrobble queue
+ * @param ids - queue item IDs, all items are selected when empty
+ * @return {QueueItem[]} selected queue items
+ */
+function selectItems(queue: ScrobbleQueue, ids: string[]): QueueItem[] {
+  const items = queue.list();
+  if (ids.length == 0) return items;
+
+  for (const id of ids) {
+    if (!items.some((i) => i.id == id))
+      log(`No queued scrobble with ID ${id}!`, "warn");
+  }
+
+  return items.filter((i) => ids.includes(i.id));
+}
+
+/**
+ * Entrypoint `queue list` action for commander-js
+ * @param opts - OptionValues from commander-js
+ */
+async function queueListAction(opts: { json?: boolean }): Promise<void> {
+  const items = new ScrobbleQueue().list();
+
+  if (opts.json) {
+    console.log(JSON.stringify(items, null, 2));
+    return;
+  }
+
+  banner();
+  if (items.length == 0) {
+    log(`No queued scrobbles in ${queueFile}.`);
+    return;
+  }
+
+  for (const item of items) {
+    log(
+      `${item.id}: ${item.tracker ?? "anilist"} anime (${item.anilistId}) season ${item.season} episode ${item.episode} for user ${item.user}, ` +
+        `${item.attempts} attempt(s), next attempt at ${new Date(item.nextAttempt).toISOString()}, last error: ${item.lastError}`,
+    );
+  }
+}
+
+/**
+ * Entrypoint `queue retry` action for commander-js
+ * @param ids - queue item IDs to retry
+ */
+async function queueRetryAction(ids: string[]): Promise<void> {
+  banner();
+  const config: Config = readConfig();
+
+  if (!validateConfig(config, true)) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const queue = new ScrobbleQueue();
+  const trackerConfigs = getUserTrackerConfigs(config);
+  const trackers: { [user: string]: Tracker[] } = {};
+  const failed: Set<Tracker> = new Set();
+
+  for (const item of selectItems(queue, ids)) {
+    if (trackerConfigs[item.user] === undefined) {
+      log(
+        `${item.id}: user ${item.user} is no longer mapped, discard it instead.`,
+        "error",
+      );
+      process.exitCode = 1;
+      continue;
+    }
+
+    if (trackers[item.user] === undefined)
+      trackers[item.user] = createTrackers(
+        trackerConfigs[item.user],
+        item.user,
+      );
+
+    const tracker = trackers[item.user].find(
+      (t) => t.name == (item.tracker ?? "anilist"),
+    );
+    if (tracker === undefined) {
+      log(
+        `${item.id}: ${item.tracker ?? "anilist"} is no longer enabled for user ${item.user}, discard it instead.`,
+        "error",
+      );
+      process.exitCode = 1;
+      continue;
+    }
+    if (tracker.dryRun) {
+      log(
+        `${item.id}: ${tracker.name} is in dry-run mode for user ${item.user}, kept in queue.`,
+        "warn",
+      );
+      continue;
+    }
+    if (failed.has(tracker)) {
+      log(
+        `${item.id}: skipped, ${tracker.name} failed to initialize for user ${item.user}.`,
+        "error",
+      );
+      continue;
+    }
+    if (tracker.profile === undefined) {
+      try {
+        await tracker.init();
+      } catch (error) {
+        log(
+          `${item.id}: ${tracker.name} failed to initialize for user ${item.user}, kept in queue: ${error instanceof Error ? error.message : "Unknown error"}`,
+          "error",
+        );
+        failed.add(tracker);
+        process.exitCode = 1;
+        continue;
+      }
+    }
+
+    const result = await queue.retry(item, async (i) => {
+      return await tracker.scrobble(
+        i.anilistId,
+        i.episode,
+        i.season,
+        i.firstEpisode ?? i.episode,
+      );
+    });
+    if (result === undefined) continue;
+
+    log(
+      `${item.id}: ${result.message}${result.retryable ? " (kept in queue)" : ""}`,
+      result.success ? "done" : result.level,
+    );
+    if (!result.success) process.exitCode = 1;
+  }
+}
+
+/**
+ * Entrypoint `queue discard` action for commander-js
+ * @param ids - queue item IDs to discard
+ * @param opts - OptionValues from commander-js
+ */
+async function queueDiscardAction(
+  ids: string[],
+  opts: { all?: boolean },
+): Promise<void> {
+  banner();
+  if (ids.length == 0 && !opts.all) {
+    log("Specify the IDs of the scrobbles to discard or pass --all.", "error");
+    process.exitCode = 1;
+    return;
+  }
+
+  const queue = new ScrobbleQueue();
+  for (const item of selectItems(queue, ids)) {
+    queue.remove(item.id);
+    log(
+      `${item.id}: discarded ${item.tracker ?? "anilist"} anime (${item.anilistId}) season ${item.season} episode ${item.episode} for user ${item.user}.`,
+      "done",
+    );
+  }
+}
+
+/**
+ * Setup `queue` command for commander-js
+ * @param program - commander program
+ */
+export function addQueueCommand(program: Command): void {
+  const queue = program
+    .command("queue")
+    .description("manage failed scrobbles waiting to be retried");
+
+  queue
+    .command("list")
+    .description("list queued scrobbles")
+    .option("--json", "output as JSON")
+    .action(queueListAction);
+
+  queue
+    .command("retry")
+    .description("retry queued scrobbles now (all if no IDs are given)")
+    .argument("[ids...]", "queue item IDs")
+    .action(queueRetryAction);
+
+  queue
+    .command("discard")
+    .description("discard queued scrobbles")
+    .argument("[ids...]", "queue item IDs")
+    .option("--all", "discard all queued scrobbles")
+    .action(queueDiscardAction);
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
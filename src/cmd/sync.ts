@@ -0,0 +1,281 @@
+import type { Config, SeriesMapping } from "lib/config";
+import type { AnimeListEntry } from "lib/scrobbler";
+import type { PlayedEpisode } from "lib/jellyfin/api";
+
+import { Command } from "@commander-js/extra-typings";
+import {
+  readConfig,
+  validateConfig,
+  getUserConfigs,
+  getUserTrackers,
+  ANY_USER,
+} from "lib/config";
+import { banner, log, configureLogger } from "lib/logger";
+import { AnilistScrobbler } from "lib/scrobbler";
+import { JellyfinMiniApi } from "lib/jellyfin/api";
+import { ScrobbleQueue } from "lib/queue";
+import { contiguousRange } from "lib/coalescer";
+import { resolveAnilistId } from "cmd/webhook/resolve";
+
+/**
+ * Type for a progress update found by sync
+ * @property title - series name and season
+ * @property anilistId - Anilist Anime ID
+ * @property episode - episode to set the progress to
+ * @property entry - current list entry, undefined if not on the lists
+ */
+type SyncUpdate = {
+  title: string;
+  anilistId: number;
+  episode: number;
+  entry?: AnimeListEntry;
+};
+
+/**
+ * Find the progress updates for the played episodes of a user
+ * @async
+ * @param episodes - played episodes of the user
+ * @param api - jellyfin api instance
+ * @param mappings - manual series mappings from the configuration
+ * @param scrobbler - anilist scrobbler instance for the user
+ * @return {SyncUpdate[]} progress missing on anilist
+ * @remark Only seasons played contiguously from the first episode are synced, specials are skipped.
+ */
+async function findUpdates(
+  episodes: PlayedEpisode[],
+  api: JellyfinMiniApi,
+  mappings: SeriesMapping[],
+  scrobbler: AnilistScrobbler,
+): Promise<SyncUpdate[]> {
+  const seasons: { [key: string]: PlayedEpisode[] } = {};
+  for (const episode of episodes) {
+    if (episode.SeasonNumber < 1) continue;
+
+    const key = `${episode.SeriesId}_${episode.SeasonNumber}`;
+    if (seasons[key] === undefined) seasons[key] = [];
+    seasons[key].push(episode);
+  }
+
+  const entries = await scrobbler.getListEntries();
+  const updates: SyncUpdate[] = [];
+  for (const played of Object.values(seasons)) {
+    const range = contiguousRange(played.map((e) => e.EpisodeNumber));
+    if (range.first != 1) continue;
+
+    const last = played.find((e) => e.EpisodeNumber == range.last);
+    if (last === undefined) continue;
+
+    const title = `${last.SeriesName} - season ${last.SeasonNumber}`;
+    const anilistId = await resolveAnilistId(
+      {
+        ItemId: last.Id,
+        SeriesId: last.SeriesId,
+        SeasonId: last.SeasonId,
+        SeasonNumber: last.SeasonNumber,
+        EpisodeNumber: last.EpisodeNumber,
+      },
+      api,
+      mappings,
+    );
+    if (anilistId === undefined) continue;
+
+    const resolved = await scrobbler.resolveSeason(
+      anilistId.id,
+      anilistId.episode,
+      anilistId.season,
+    );
+    if (resolved === undefined) {
+      log(
+        `${title}: could not resolve season ${anilistId.season} of anime (${anilistId.id}), no matching SEQUEL relation found.`,
+        "warn",
+      );
+      continue;
+    }
+
+    for (const r of resolved) {
+      const entry = entries[r.id];
+      if (entry !== undefined) {
+        if (entry.status != "CURRENT" && entry.status != "PLANNING") continue;
+        if (entry.progress >= r.episode) continue;
+      }
+
+      updates.push({ title, anilistId: r.id, episode: r.episode, entry });
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Entrypoint `sync` action for commander-js
+ * @param opts - OptionValues from commander-js
+ */
+async function syncAction(opts: {
+  user?: string;
+  jellyfinUrl?: string;
+  dryRun?: boolean;
+}): Promise<void> {
+  const config: Config = readConfig();
+  configureLogger(config.log);
+  banner();
+
+  if (!validateConfig(config, true)) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const jellyfinUrl = opts.jellyfinUrl ?? config.jellyfin.url;
+  if (jellyfinUrl === undefined) {
+    log(
+      "Missing jellyfin URL, pass --jellyfin-url or configure it with configure --jellyfin-url!",
+      "error",
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  // without mapped users, --user selects the jellyfin user to sync to the global token
+  const userConfigs = getUserConfigs(config);
+  const userTrackers = getUserTrackers(config);
+  const users: string[] = [];
+  if (userConfigs[ANY_USER] !== undefined) {
+    if (opts.user === undefined) {
+      log("Pass --user to select the jellyfin user to sync!", "error");
+      process.exitCode = 1;
+      return;
+    }
+    users.push(opts.user);
+  } else if (opts.user !== undefined) {
+    if (userConfigs[opts.user] === undefined) {
+      log(`User ${opts.user} is not mapped!`, "error");
+      process.exitCode = 1;
+      return;
+    }
+    users.push(opts.user);
+  } else {
+    users.push(...Object.keys(userConfigs));
+  }
+
+  const api = new JellyfinMiniApi(
+    jellyfinUrl,
+    config.jellyfin.apiKey as string,
+  );
+  let jellyfinUsers: { Id: string; Name: string }[];
+  try {
+    jellyfinUsers = await api.getUsers();
+  } catch (error) {
+    log(
+      `Failed to get users from ${jellyfinUrl}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "error",
+    );
+    process.exitCode = 1;
+    return;
+  }
+  const queue = new ScrobbleQueue();
+
+  for (const user of users) {
+    const userKey = userConfigs[ANY_USER] !== undefined ? ANY_USER : user;
+    const jellyfinUser = jellyfinUsers.find(
+      (u) =>
+        u.Name == user ||
+        u.Id.replace(/-/g, "").toLowerCase() ==
+          user.replace(/-/g, "").toLowerCase(),
+    );
+    if (jellyfinUser === undefined) {
+      log(`User ${user} not found on ${jellyfinUrl}!`, "error");
+      process.exitCode = 1;
+      continue;
+    }
+
+    // sync compares against the complete anilist lists, other trackers are only updated by the webhook
+    if (!userTrackers[userKey].includes("anilist")) {
+      log(`${jellyfinUser.Name}: anilist is not enabled, skipping.`, "warn");
+      continue;
+    }
+
+    const scrobbler = new AnilistScrobbler(userConfigs[userKey], userKey);
+    let updates: SyncUpdate[];
+    try {
+      await scrobbler.init();
+
+      log(`Comparing watch history of ${jellyfinUser.Name} with anilist ...`);
+      updates = await findUpdates(
+        await api.getPlayedEpisodes(jellyfinUser.Id),
+        api,
+        config.mapping,
+        scrobbler,
+      );
+    } catch (error) {
+      log(
+        `${jellyfinUser.Name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        "error",
+      );
+      process.exitCode = 1;
+      continue;
+    }
+
+    if (updates.length == 0) {
+      log(`${jellyfinUser.Name}: anilist is up to date.`, "done");
+      continue;
+    }
+
+    for (const update of updates) {
+      log(
+        `${update.title}: anime (${update.anilistId}) ` +
+          `${update.entry ? `${update.entry.status} ${update.entry.progress}` : "not on list"} -> progress ${update.episode}`,
+      );
+    }
+    if (opts.dryRun) continue;
+
+    for (const update of updates) {
+      const result = await scrobbler.scrobble(
+        update.anilistId,
+        update.episode,
+        1,
+        1,
+      );
+
+      if (result.success) {
+        log(`${update.title}: ${result.message}`, "done");
+      } else if (result.retryable) {
+        const item = queue.enqueue(
+          userKey,
+          update.anilistId,
+          update.episode,
+          1,
+          result.message,
+          1,
+        );
+        log(
+          `${update.title}: ${result.message} (queued for retry as ${item.id})`,
+          "warn",
+        );
+      } else {
+        log(`${update.title}: ${result.message}`, result.level);
+        process.exitCode = 1;
+      }
+    }
+  }
+}
+
+/**
+ * Setup `sync` command for commander-js
+ * @param program - commander program
+ */
+export function addSyncCommand(program: Command): void {
+  program
+    .command("sync")
+    .description("backfill anilist progress from the jellyfin watch history")
+    .option(
+      "--user <user>",
+      "only sync this Jellyfin user (UserId or username), required when no users are mapped",
+    )
+    .option(
+      "--jellyfin-url <url>",
+      "jellyfin URL (defaults to the configured URL)",
+    )
+    .option("--dry-run", "only show the progress that would be updated")
+    .action(syncAction);
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -1,18 +1,37 @@
 import type { Server } from "bun";
 import type { Config } from "lib/config";
+import type { Tracker } from "lib/tracker";
 import type {
   BasePayload,
   PlaybackStopPayload,
   UserDataSavedPayload,
+  UserEventPayload,
 } from "lib/jellyfin/webhook";
 
 import { Command } from "@commander-js/extra-typings";
-import { readConfig, validateConfig } from "lib/config";
-import { banner, log } from "lib/logger";
-import { AnilistScrobbler } from "lib/scrobbler";
+import {
+  readConfig,
+  validateConfig,
+  getUserTrackerConfigs,
+  ANY_USER,
+} from "lib/config";
+import { banner, log, configureLogger } from "lib/logger";
+import { createTrackers, createRetryHandler } from "lib/trackers";
+import { ScrobbleQueue } from "lib/queue";
+import { ScrobbleHistory } from "lib/history";
+import { ScrobbleCoalescer } from "lib/coalescer";
+import { isAllowedIp, hasValidToken } from "lib/auth";
+import { metrics } from "lib/metrics";
 import { JellyfinMiniApi } from "lib/jellyfin/api";
 import { webhookPlaybackStop } from "cmd/webhook/playbackstop";
-import { webhookUserDataSaved } from "cmd/webhook/userdatasaved";
+import { webhookHealthz } from "cmd/webhook/healthz";
+import { webhookMetrics } from "cmd/webhook/metrics";
+import { webhookApi } from "cmd/webhook/api";
+import { findUserScrobbler } from "cmd/webhook/users";
+import {
+  webhookUserDataSaved,
+  flushUserDataSaved,
+} from "cmd/webhook/userdatasaved";
 
 const NOTIFICATION_TYPES = ["PlaybackStop", "UserDataSaved"];
 const DEBUG_PAYLOAD: boolean =
@@ -20,112 +39,318 @@ const DEBUG_PAYLOAD: boolean =
 
 /**
  * Entrypoint `webook` action for commander-js
+ * @param opts - OptionValues from commander-js
  */
-async function webhookAction(): Promise<void> {
-  banner();
+async function webhookAction(opts: { dryRun?: boolean }): Promise<void> {
   const config: Config = readConfig();
+  configureLogger(config.log);
+  banner();
 
   if (!validateConfig(config, true)) {
     process.exitCode = 1;
     return;
   }
 
-  const anilistScrobbler = new AnilistScrobbler(config);
-  await anilistScrobbler.init();
+  const trackers: {
+    [user: string]: Tracker[];
+  } = {};
+  const initErrors: {
+    [user: string]: { [tracker: string]: string };
+  } = {};
+  for (const [user, trackerConfigs] of Object.entries(
+    getUserTrackerConfigs(config),
+  )) {
+    const prefix = user == ANY_USER ? "" : `user ${user}: `;
+    trackers[user] = createTrackers(trackerConfigs, user, opts.dryRun);
+    for (const tracker of trackers[user]) {
+      if (opts.dryRun || trackerConfigs[tracker.name]?.dryRun)
+        log(
+          `webhook: ${prefix}dry-run mode, no updates will be sent to ${tracker.name}`,
+          "warn",
+        );
+
+      try {
+        await tracker.init();
+      } catch (error) {
+        // other users and trackers can still scrobble, /healthz reports the failure
+        const errorMsg =
+          error instanceof Error ? error.message : "Unknown error";
+        log(`webhook: ${prefix}${tracker.name}: ${errorMsg}`, "error");
+        initErrors[user] = { ...initErrors[user], [tracker.name]: errorMsg };
+        continue;
+      }
+
+      if (user != ANY_USER || trackers[user].length > 1)
+        log(`webhook: ${prefix}scrobbling to ${tracker.name}`);
+    }
+  }
+
+  if (
+    Object.values(trackers)
+      .flat()
+      .every((t) => t.profile === undefined)
+  ) {
+    process.exitCode = 1;
+    return;
+  }
+
+  // trackers that failed to initialize would fail every event with "Not initialized!"
+  const activeTrackers: {
+    [user: string]: Tracker[];
+  } = Object.fromEntries(
+    Object.entries(trackers).map(([user, userTrackers]) => [
+      user,
+      userTrackers.filter((t) => t.profile !== undefined),
+    ]),
+  );
+
+  const history = new ScrobbleHistory();
+
+  // retry failed scrobbles in the background, dry-run trackers leave their items queued
+  const queue = new ScrobbleQueue();
+  if (
+    Object.values(trackers)
+      .flat()
+      .every((t) => t.dryRun)
+  ) {
+    log("webhook: dry-run mode, queued scrobbles are not retried", "warn");
+  } else {
+    queue.start(createRetryHandler(trackers), (item, result) => {
+      metrics.retries.inc({
+        result: result.success
+          ? "success"
+          : result.retryable
+            ? "retry"
+            : "discarded",
+      });
+      log(
+        `webhook/queue: ${result.message}${result.retryable ? ` (attempt ${item.attempts + 1} failed)` : ""}`,
+        result.success ? "done" : result.level,
+        item.id,
+        {
+          user: item.user,
+          tracker: item.tracker ?? "anilist",
+          anilistId: item.anilistId,
+          result: result.success ? "success" : result.level,
+        },
+      );
+      history.record({
+        reqid: item.id,
+        user: item.user,
+        tracker: item.tracker ?? "anilist",
+        event: "Retry",
+        season: item.season,
+        episode: item.episode,
+        anilistId: item.anilistId,
+        result: result,
+      });
+    });
+  }
+
+  // coalesce bursts of episodes marked as played
+  const coalescer =
+    config.webhook.coalesceDelay > 0
+      ? new ScrobbleCoalescer(
+          config.webhook.coalesceDelay * 1000,
+          async (batch) => await flushUserDataSaved(batch, queue, history),
+        )
+      : undefined;
 
   const jellyfinApi: {
     [url: string]: JellyfinMiniApi;
   } = {};
+  if (config.jellyfin.url !== undefined) {
+    jellyfinApi[config.jellyfin.url] = new JellyfinMiniApi(
+      config.jellyfin.url,
+      config.jellyfin.apiKey as string,
+    );
+  }
 
-  // setup server
-  const server: Server = Bun.serve({
-    port: config.webhook.port,
-    hostname: config.webhook.bind,
-    async fetch(req: Request) {
-      const url = new URL(req.url);
-      const clientIP = server.requestIP(req);
-      const clientIPPrintable =
-        clientIP?.family == "IPv6"
-          ? `[${clientIP?.address}]:${clientIP?.port}`
-          : `${clientIP?.address}:${clientIP?.port}`;
-      const reqid = Bun.hash
-        .crc32(`${Date.now()}_${url}_${clientIPPrintable}`)
-        .toString(16);
-
-      if (
-        req.method == "POST" &&
-        req.headers.get("user-agent")?.startsWith("Jellyfin-Server/")
-      ) {
-        const payload: BasePayload = await req.json();
-        if (DEBUG_PAYLOAD) {
-          log(
-            `webhook/payload: ${req.method} ${url.pathname} from ${clientIPPrintable} send payload: ${JSON.stringify(payload)}`,
-            "info",
-            reqid,
-          );
-        }
-
-        if (NOTIFICATION_TYPES.includes(payload.NotificationType)) {
-          log(
-            `webhook: dispatching call for ${payload.NotificationType} NotificationType from ${clientIPPrintable}`,
-            "info",
-            reqid,
-          );
-        } else {
-          const msg = `ignoring call for ${payload.NotificationType} NotificationType from ${clientIPPrintable}`;
-          log(
-            `webhook: ${msg}, please check your webhook configuration in Jellyfin`,
-            "info",
-            reqid,
-          );
-          return new Response(msg, {
-            status: 200,
-            statusText: "OK",
-          });
-        }
-
-        // Initialize Jellyfin API for originating server if not already initialized
-        if (jellyfinApi[payload.ServerUrl] === undefined) {
-          log(
-            `webhook: creating Jellyfin API connection for ${payload.ServerUrl}`,
-            "info",
-            reqid,
-          );
-          jellyfinApi[payload.ServerUrl] = new JellyfinMiniApi(
-            payload.ServerUrl,
-            config.jellyfin.apiKey as string,
-          );
-        }
-
-        // Call specific webhook handler based on NotificationType
-        if (payload.NotificationType == "PlaybackStop") {
-          return await webhookPlaybackStop(
-            payload as PlaybackStopPayload,
-            reqid,
-            jellyfinApi[payload.ServerUrl],
-            anilistScrobbler,
-          );
-        }
-
-        if (payload.NotificationType == "UserDataSaved") {
-          return await webhookUserDataSaved(
-            payload as UserDataSavedPayload,
-            reqid,
-            jellyfinApi[payload.ServerUrl],
-            anilistScrobbler,
-          );
-        }
-      }
+  // handle requests
+  const handleRequest = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    const clientIP = server.requestIP(req);
+    const clientIPPrintable =
+      clientIP?.family == "IPv6"
+        ? `[${clientIP?.address}]:${clientIP?.port}`
+        : `${clientIP?.address}:${clientIP?.port}`;
+    const reqid = Bun.hash
+      .crc32(`${Date.now()}_${url}_${clientIPPrintable}`)
+      .toString(16);
 
+    // authenticate the client
+    if (
+      config.webhook.allowedIps.length > 0 &&
+      !isAllowedIp(clientIP?.address ?? "", config.webhook.allowedIps)
+    ) {
       log(
-        `webhook: ${req.method} ${url.pathname} from ${clientIPPrintable} has no dispatcher`,
-        "error",
+        `webhook/auth: ${req.method} ${url.pathname} from ${clientIPPrintable} rejected, address not allowed`,
+        "warn",
         reqid,
       );
-      return new Response("No request handler", {
+      return new Response("Address not allowed", {
         status: 403,
         statusText: "Forbidden",
       });
+    }
+    if (
+      config.webhook.token !== undefined &&
+      !hasValidToken(req, url, config.webhook.token)
+    ) {
+      log(
+        `webhook/auth: ${req.method} ${url.pathname} from ${clientIPPrintable} rejected, missing or invalid token`,
+        "warn",
+        reqid,
+      );
+      return new Response("Missing or invalid token", {
+        status: 401,
+        statusText: "Unauthorized",
+      });
+    }
+
+    if (req.method == "GET" && url.pathname == "/healthz") {
+      return await webhookHealthz(trackers, jellyfinApi, initErrors);
+    }
+
+    if (req.method == "GET" && url.pathname == "/metrics") {
+      return webhookMetrics(queue);
+    }
+
+    if (url.pathname.startsWith("/api/")) {
+      // the API can change list entries, so it is never served without a token
+      if (config.webhook.token === undefined) {
+        log(
+          `webhook/api: ${req.method} ${url.pathname} from ${clientIPPrintable} rejected, no webhook token configured`,
+          "warn",
+          reqid,
+        );
+        return Response.json(
+          { error: "The API requires a webhook token to be configured." },
+          { status: 403, statusText: "Forbidden" },
+        );
+      }
+
+      return await webhookApi(req, url, reqid, activeTrackers, history);
+    }
+
+    if (
+      req.method == "POST" &&
+      req.headers.get("user-agent")?.startsWith("Jellyfin-Server/")
+    ) {
+      const payload: BasePayload = await req.json();
+      if (DEBUG_PAYLOAD) {
+        log(
+          `webhook/payload: ${req.method} ${url.pathname} from ${clientIPPrintable} send payload: ${JSON.stringify(payload)}`,
+          "info",
+          reqid,
+        );
+      }
+
+      if (NOTIFICATION_TYPES.includes(payload.NotificationType)) {
+        log(
+          `webhook: dispatching call for ${payload.NotificationType} NotificationType from ${clientIPPrintable}`,
+          "info",
+          reqid,
+        );
+      } else {
+        const msg = `ignoring call for ${payload.NotificationType} NotificationType from ${clientIPPrintable}`;
+        log(
+          `webhook: ${msg}, please check your webhook configuration in Jellyfin`,
+          "info",
+          reqid,
+        );
+        return new Response(msg, {
+          status: 200,
+          statusText: "OK",
+        });
+      }
+
+      // Find the trackers for the user, unmapped users are ignored
+      const userTrackers = findUserScrobbler(
+        activeTrackers,
+        (payload as UserEventPayload).UserId,
+        (payload as UserEventPayload).NotificationUsername,
+      );
+      if (userTrackers === undefined) {
+        const msg = `ignoring call for unmapped user ${(payload as UserEventPayload).NotificationUsername}`;
+        log(`webhook: ${msg}`, "info", reqid);
+        return new Response(msg, {
+          status: 200,
+          statusText: "OK",
+        });
+      }
+      if (userTrackers.length == 0) {
+        const msg = `no tracker of user ${(payload as UserEventPayload).NotificationUsername} is initialized, see /healthz`;
+        log(`webhook: ${msg}`, "error", reqid);
+        return new Response(msg, {
+          status: 503,
+          statusText: "Service Unavailable",
+        });
+      }
+
+      // Initialize Jellyfin API for originating server if not already initialized
+      if (jellyfinApi[payload.ServerUrl] === undefined) {
+        log(
+          `webhook: creating Jellyfin API connection for ${payload.ServerUrl}`,
+          "info",
+          reqid,
+        );
+        jellyfinApi[payload.ServerUrl] = new JellyfinMiniApi(
+          payload.ServerUrl,
+          config.jellyfin.apiKey as string,
+        );
+      }
+
+      // Call specific webhook handler based on NotificationType
+      if (payload.NotificationType == "PlaybackStop") {
+        return await webhookPlaybackStop(
+          payload as PlaybackStopPayload,
+          reqid,
+          jellyfinApi[payload.ServerUrl],
+          config.mapping,
+          userTrackers,
+          queue,
+          history,
+        );
+      }
+
+      if (payload.NotificationType == "UserDataSaved") {
+        return await webhookUserDataSaved(
+          payload as UserDataSavedPayload,
+          reqid,
+          jellyfinApi[payload.ServerUrl],
+          config.mapping,
+          userTrackers,
+          queue,
+          history,
+          coalescer,
+        );
+      }
+    }
+
+    log(
+      `webhook: ${req.method} ${url.pathname} from ${clientIPPrintable} has no dispatcher`,
+      "error",
+      reqid,
+    );
+    return new Response("No request handler", {
+      status: 403,
+      statusText: "Forbidden",
+    });
+  };
+
+  // setup server
+  const server: Server = Bun.serve({
+    port: config.webhook.port,
+    hostname: config.webhook.bind,
+    async fetch(req: Request) {
+      const start = performance.now();
+      const res = await handleRequest(req);
+      metrics.requestDuration.observe(
+        { method: req.method, status: `${res.status}` },
+        (performance.now() - start) / 1000,
+      );
+      return res;
     },
   });
 
@@ -140,6 +365,10 @@ export function addWebhookCommand(program: Command): void {
   program
     .command("webhook")
     .description("Start the webhook server")
+    .option(
+      "--dry-run",
+      "do not send updates to the trackers, only log the updates that would have been sent",
+    )
     .action(webhookAction);
 }
 
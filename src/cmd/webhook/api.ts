@@ -0,0 +1,264 @@
+import type { Tracker } from "lib/tracker";
+import type { ScrobbleHistory } from "lib/history";
+import type { TrackerName } from "lib/config";
+
+import { log } from "lib/logger";
+import { metrics } from "lib/metrics";
+import { ANY_USER, TRACKER_NAMES } from "lib/config";
+import { findUserScrobbler } from "cmd/webhook/users";
+
+const RECENT_LIMIT: number = 20;
+const RECENT_MAX_LIMIT: number = 500;
+
+/**
+ * Type for the request body of POST /api/scrobble
+ * @property anilistId - Anime ID of the tracker
+ * @property episode - Watched episode
+ * @property season - Watched season relative to the anime ID, defaults to 1
+ * @property user - user to scrobble for, required when users are mapped
+ * @property tracker - tracker to scrobble to, defaults to anilist
+ */
+type ApiScrobbleRequest = {
+  anilistId: number;
+  episode: number;
+  season?: number;
+  user?: string;
+  tracker?: TrackerName;
+};
+
+/**
+ * Create an API error response
+ * @param message - error message
+ * @param status - HTTP status code
+ * @param statusText - HTTP status text
+ * @return {Response} JSON error response
+ */
+function apiError(
+  message: string,
+  status: number,
+  statusText: string,
+): Response {
+  return Response.json({ error: message }, { status, statusText });
+}
+
+/**
+ * Find the tracker for the user of an API request
+ * @param trackers - enabled trackers keyed by user
+ * @param user - user passed in the request
+ * @param tracker - tracker passed in the request
+ * @return {Tracker|string} tracker for the user, or the reason it was not found
+ */
+function findApiTracker(
+  trackers: { [user: string]: Tracker[] },
+  user: string | undefined,
+  tracker: string = "anilist",
+): Tracker | string {
+  if (!TRACKER_NAMES.includes(tracker as TrackerName))
+    return `Unknown tracker ${tracker}.`;
+
+  let userTrackers: Tracker[] | undefined = trackers[ANY_USER];
+  if (userTrackers === undefined) {
+    if (user === undefined) return "Missing user.";
+    userTrackers = findUserScrobbler(trackers, user);
+    if (userTrackers === undefined) return `User ${user} is not mapped.`;
+  }
+
+  return (
+    userTrackers.find((t) => t.name == tracker) ??
+    `Tracker ${tracker} is not enabled${user !== undefined ? ` for user ${user}` : ""}.`
+  );
+}
+
+/**
+ * Check if a value is a positive integer
+ * @param value - value from the request
+ * @return {boolean} true if the value is a positive integer
+ */
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value == "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Handler for POST /api/scrobble
+ * @async
+ * @param req - HTTP request
+ * @param reqid - request id
+ * @param trackers - enabled trackers keyed by user
+ * @param history - history of handled events
+ * @return {Response} response to send to client
+ */
+async function apiScrobble(
+  req: Request,
+  reqid: string,
+  trackers: { [user: string]: Tracker[] },
+  history: ScrobbleHistory,
+): Promise<Response> {
+  let body: ApiScrobbleRequest;
+  try {
+    body = (await req.json()) as ApiScrobbleRequest;
+  } catch {
+    return apiError("Request body is not valid JSON.", 400, "Bad Request");
+  }
+
+  const season = body.season ?? 1;
+  if (
+    !isPositiveInteger(body.anilistId) ||
+    !isPositiveInteger(body.episode) ||
+    !isPositiveInteger(season)
+  )
+    return apiError(
+      "anilistId, episode and season must be positive integers.",
+      400,
+      "Bad Request",
+    );
+
+  const scrobbler = findApiTracker(trackers, body.user, body.tracker);
+  if (typeof scrobbler == "string")
+    return apiError(scrobbler, 400, "Bad Request");
+
+  const result = await scrobbler.scrobble(body.anilistId, body.episode, season);
+
+  metrics.scrobbles.inc({ notification_type: "Api", level: result.level });
+  history.record({
+    reqid: reqid,
+    user: scrobbler.user,
+    tracker: scrobbler.name,
+    event: "Api",
+    season: season,
+    episode: body.episode,
+    anilistId: body.anilistId,
+    result: result,
+  });
+  log(
+    `webhook/api: ${result.message}`,
+    result.success ? "done" : result.level,
+    reqid,
+    {
+      notificationType: "Api",
+      user: scrobbler.user,
+      tracker: scrobbler.name,
+      anilistId: body.anilistId,
+      result: result.success ? "success" : result.level,
+    },
+  );
+
+  if (result.success)
+    return Response.json({ result }, { status: 200, statusText: "OK" });
+  else if (result.retryable)
+    return Response.json(
+      { result },
+      { status: 502, statusText: "Bad Gateway" },
+    );
+  else
+    return Response.json(
+      { result },
+      {
+        status: result.level == "error" ? 500 : 400,
+        statusText:
+          result.level == "error" ? "Internal Server Error" : "Bad Request",
+      },
+    );
+}
+
+/**
+ * Handler for GET /api/entry/:anilistId
+ * @async
+ * @param url - parsed request URL
+ * @param anilistId - Anime ID of the tracker
+ * @param trackers - enabled trackers keyed by user
+ * @return {Response} response to send to client
+ */
+async function apiEntry(
+  url: URL,
+  anilistId: number,
+  trackers: { [user: string]: Tracker[] },
+): Promise<Response> {
+  const user = url.searchParams.get("user") ?? undefined;
+  const scrobbler = findApiTracker(
+    trackers,
+    user,
+    url.searchParams.get("tracker") ?? undefined,
+  );
+  if (typeof scrobbler == "string")
+    return apiError(scrobbler, 400, "Bad Request");
+
+  try {
+    const entry = await scrobbler.getListEntry(anilistId);
+    return Response.json(
+      {
+        anilistId,
+        user: scrobbler.user,
+        tracker: scrobbler.name,
+        entry: entry ?? null,
+      },
+      { status: 200, statusText: "OK" },
+    );
+  } catch (error) {
+    return apiError(
+      `Something went wrong while connecting to ${scrobbler.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      502,
+      "Bad Gateway",
+    );
+  }
+}
+
+/**
+ * Handler for GET /api/recent
+ * @param url - parsed request URL
+ * @param history - history of handled events
+ * @return {Response} response to send to client
+ */
+function apiRecent(url: URL, history: ScrobbleHistory): Response {
+  const limit = parseInt(
+    url.searchParams.get("limit") ?? `${RECENT_LIMIT}`,
+    10,
+  );
+  if (isNaN(limit) || limit < 1)
+    return apiError("limit must be a positive integer.", 400, "Bad Request");
+
+  const tracker = url.searchParams.get("tracker") ?? undefined;
+  if (tracker !== undefined && !TRACKER_NAMES.includes(tracker as TrackerName))
+    return apiError(`Unknown tracker ${tracker}.`, 400, "Bad Request");
+
+  const events = history.find({
+    user: url.searchParams.get("user") ?? undefined,
+    tracker: tracker as TrackerName | undefined,
+    limit: Math.min(limit, RECENT_MAX_LIMIT),
+  });
+  return Response.json({ events }, { status: 200, statusText: "OK" });
+}
+
+/**
+ * API dispatch handler
+ * @async
+ * @param req - HTTP request
+ * @param url - parsed request URL
+ * @param reqid - request id
+ * @param trackers - enabled trackers keyed by user
+ * @param history - history of handled events
+ * @return {Response} response to send to client
+ */
+export async function webhookApi(
+  req: Request,
+  url: URL,
+  reqid: string,
+  trackers: { [user: string]: Tracker[] },
+  history: ScrobbleHistory,
+): Promise<Response> {
+  const entryMatch = url.pathname.match(/^\/api\/entry\/(\d+)$/);
+
+  if (req.method == "POST" && url.pathname == "/api/scrobble")
+    return await apiScrobble(req, reqid, trackers, history);
+  if (req.method == "GET" && entryMatch)
+    return await apiEntry(url, parseInt(entryMatch[1], 10), trackers);
+  if (req.method == "GET" && url.pathname == "/api/recent")
+    return apiRecent(url, history);
+
+  return apiError(
+    `No API endpoint for ${req.method} ${url.pathname}.`,
+    404,
+    "Not Found",
+  );
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -0,0 +1,67 @@
+import type { JellyfinMiniApi } from "lib/jellyfin/api";
+import type { Tracker } from "lib/tracker";
+
+const PING_TIMEOUT: number = 5000;
+
+/**
+ * Health dispatch handler
+ * @async
+ * @param trackers - enabled trackers keyed by user
+ * @param jellyfinApi - jellyfin api instances keyed by server URL
+ * @param initErrors - errors of trackers that failed to initialize, keyed by user and tracker name
+ * @return {Response} response to send to client
+ * @remark Responds with 503 when any user is not authenticated to one of their trackers or any known jellyfin server is unreachable.
+ *         Each tracker is reported in its own section (e.g. anilist) keyed by user, failed trackers include their error.
+ */
+export async function webhookHealthz(
+  trackers: { [user: string]: Tracker[] },
+  jellyfinApi: { [url: string]: JellyfinMiniApi },
+  initErrors: { [user: string]: { [tracker: string]: string } } = {},
+): Promise<Response> {
+  const status: {
+    [tracker: string]: {
+      [user: string]: {
+        authenticated: boolean;
+        profile?: string;
+        error?: string;
+      };
+    };
+  } = {};
+  for (const [user, userTrackers] of Object.entries(trackers)) {
+    for (const tracker of userTrackers) {
+      if (status[tracker.name] === undefined) status[tracker.name] = {};
+      status[tracker.name][user] = {
+        authenticated: tracker.profile !== undefined,
+        profile: tracker.profile,
+        error: initErrors[user]?.[tracker.name],
+      };
+    }
+  }
+
+  const jellyfin: { [url: string]: { reachable: boolean } } = {};
+  for (const [url, api] of Object.entries(jellyfinApi)) {
+    jellyfin[url] = {
+      reachable: await Promise.race([
+        api.ping(),
+        new Promise<boolean>((resolve) =>
+          setTimeout(() => resolve(false), PING_TIMEOUT),
+        ),
+      ]),
+    };
+  }
+
+  const healthy =
+    Object.values(status).every((users) =>
+      Object.values(users).every((u) => u.authenticated),
+    ) && Object.values(jellyfin).every((j) => j.reachable);
+
+  return Response.json(
+    { status: healthy ? "ok" : "degraded", ...status, jellyfin },
+    {
+      status: healthy ? 200 : 503,
+      statusText: healthy ? "OK" : "Service Unavailable",
+    },
+  );
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
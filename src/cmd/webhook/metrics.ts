@@ -0,0 +1,24 @@
+import type { ScrobbleQueue } from "lib/queue";
+
+import { Gauge, renderMetrics } from "lib/metrics";
+
+/**
+ * Metrics dispatch handler
+ * @param queue - queue for failed scrobbles
+ * @return {Response} response to send to client
+ */
+export function webhookMetrics(queue: ScrobbleQueue): Response {
+  const queued = new Gauge(
+    "anilist_scrobbler_queued_scrobbles",
+    "Failed scrobbles waiting to be retried.",
+    () => queue.list().length,
+  );
+
+  return new Response(renderMetrics([queued]), {
+    status: 200,
+    statusText: "OK",
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
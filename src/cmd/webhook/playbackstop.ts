@@ -1,8 +1,20 @@
 import type { PlaybackStopPayload } from "lib/jellyfin/webhook";
 import type { JellyfinMiniApi } from "lib/jellyfin/api";
-import type { AnilistScrobbler } from "lib/scrobbler";
+import type { Tracker } from "lib/tracker";
+import type { ScrobbleQueue } from "lib/queue";
+import type { ScrobbleHistory } from "lib/history";
+import type { ScrobbleResult } from "lib/scrobbler";
+import type { PayloadAnilistId } from "cmd/webhook/resolve";
+import type { LogFields } from "lib/logger";
+import type { SeriesMapping } from "lib/config";
+import type { TrackerResponse } from "cmd/webhook/response";
 
 import { log } from "lib/logger";
+import { resolveTrackerId, resolveMovieTrackerId } from "cmd/webhook/resolve";
+import { createResponse } from "cmd/webhook/response";
+import { metrics } from "lib/metrics";
+
+const SCROBBLE_ITEM_TYPES = ["Episode", "Movie"];
 
 /**
  * Webhook dispatch handler
@@ -10,69 +22,182 @@ import { log } from "lib/logger";
  * @param payload - request payload body
  * @param reqid - request id
  * @param api - jellyfin api instance
- * @param scrobbler - anilist scrobbler instance
+ * @param mappings - manual series mappings from the configuration
+ * @param trackers - enabled trackers of the user
+ * @param queue - queue for failed scrobbles
+ * @param history - history of handled events
  * @return {Response} response to send to client
  */
 export async function webhookPlaybackStop(
   payload: PlaybackStopPayload,
   reqid: string,
   api: JellyfinMiniApi,
-  scrobbler: AnilistScrobbler,
+  mappings: SeriesMapping[],
+  trackers: Tracker[],
+  queue: ScrobbleQueue,
+  history: ScrobbleHistory,
 ): Promise<Response> {
-  if (!payload.PlayedToCompletion || payload.ItemType != "Episode") {
+  const fields: LogFields = {
+    notificationType: payload.NotificationType,
+    user: trackers[0].user,
+  };
+
+  if (
+    !payload.PlayedToCompletion ||
+    !SCROBBLE_ITEM_TYPES.includes(payload.ItemType)
+  ) {
     log(
-      "webhook/playbackstop: Not played to completion or not an episode.",
+      "webhook/playbackstop: Not played to completion or not an episode or movie.",
       "info",
       reqid,
+      fields,
+    );
+    return new Response(
+      "Not played to completion or not an episode or movie.",
+      {
+        status: 200,
+        statusText: `OK`,
+      },
     );
-    return new Response("Not played to completion or not an episode.", {
-      status: 200,
-      statusText: `OK`,
-    });
   }
 
-  const anilistIdString = await api.getProviderFromSeries(
-    payload.SeriesId,
-    "anilist",
-  );
+  // movies are single episode entries with the provider ID on the movie itself
+  const isMovie = payload.ItemType == "Movie";
 
-  const anilistId: number = anilistIdString ? parseInt(anilistIdString, 10) : 0;
+  // each tracker resolves its own anime ID from the jellyfin provider IDs
+  const scrobbleTracker = async (
+    tracker: Tracker,
+  ): Promise<TrackerResponse> => {
+    const trackerFields: LogFields = { ...fields, tracker: tracker.name };
+    const record = (result: ScrobbleResult, anilistId?: number): void =>
+      history.record({
+        reqid: reqid,
+        user: tracker.user,
+        tracker: tracker.name,
+        event: payload.NotificationType,
+        // movies are recorded with their own ID and name in place of the series
+        seriesId: isMovie ? payload.ItemId : payload.SeriesId,
+        series: isMovie ? payload.Name : payload.SeriesName,
+        season: isMovie ? undefined : payload.SeasonNumber,
+        episode: isMovie ? undefined : payload.EpisodeNumber,
+        anilistId: anilistId,
+        result: result,
+      });
 
-  if (anilistId == 0 || isNaN(anilistId)) {
-    const errorMsg = `No or invalid "Provider_AniList" in payload! Provider_AniList=${payload.Provider_anilist}`;
-    log(`webhook/playbackstop: ${errorMsg}`, "error", reqid);
-    return new Response(`${errorMsg}`, {
-      status: 404,
-      statusText: `Not found`,
-    });
-  }
+    let anilistId: PayloadAnilistId | undefined;
+    try {
+      anilistId = isMovie
+        ? await resolveMovieTrackerId(payload, api, tracker.provider)
+        : await resolveTrackerId(payload, api, tracker.provider, mappings);
+    } catch (error) {
+      metrics.jellyfinLookupFailures.inc({ reason: "error" });
+      const errorMsg = `Failed to look up "Provider_${tracker.provider}" on jellyfin: ${error instanceof Error ? error.message : "Unknown error"}`;
+      log(`webhook/playbackstop: ${errorMsg}`, "error", reqid, trackerFields);
+      record({ success: false, level: "error", message: errorMsg });
+      return {
+        tracker: tracker.name,
+        status: 502,
+        statusText: "Bad Gateway",
+        message: errorMsg,
+      };
+    }
 
-  log(
-    `webhook/playbackstop: Detected as "${payload.SeriesName} - ${payload.EpisodeNumber} - ${payload.Name}" ...`,
-    "info",
-    reqid,
-  );
+    if (anilistId === undefined) {
+      metrics.jellyfinLookupFailures.inc({ reason: "not_found" });
+      const errorMsg =
+        tracker.name == "anilist" && !isMovie
+          ? `No or invalid "Provider_AniList" in payload and no match in the ID map! Provider_AniList=${payload.Provider_anilist}`
+          : `No or invalid "Provider_${tracker.provider}" on jellyfin!`;
+      log(`webhook/playbackstop: ${errorMsg}`, "error", reqid, trackerFields);
+      record({ success: false, level: "error", message: errorMsg });
+      return {
+        tracker: tracker.name,
+        status: 404,
+        statusText: "Not found",
+        message: errorMsg,
+      };
+    }
+    trackerFields.anilistId = anilistId.id;
 
-  const result = await scrobbler.scrobble(
-    anilistId,
-    payload.EpisodeNumber,
-    payload.SeasonNumber,
-  );
+    log(
+      isMovie
+        ? `webhook/playbackstop: Detected as movie "${payload.Name}" ...`
+        : `webhook/playbackstop: Detected as "${payload.SeriesName} - ${payload.EpisodeNumber} - ${payload.Name}" ...`,
+      "info",
+      reqid,
+      trackerFields,
+    );
 
-  if (result.success) {
-    log(`webhook/playbackstop: ${result.message}`, "done", reqid);
-    return new Response(result.message, {
-      status: 200,
-      statusText: "OK",
-    });
-  } else {
-    log(`webhook/playbackstop: ${result.message}`, result.level, reqid);
-    return new Response(result.message, {
-      status: result.level == "error" ? 500 : 400,
-      statusText:
-        result.level == "error" ? "Internal Server Error" : "Bad Request",
+    const result = await tracker.scrobble(
+      anilistId.id,
+      anilistId.episode,
+      anilistId.season,
+    );
+
+    metrics.scrobbles.inc({
+      notification_type: payload.NotificationType,
+      level: result.level,
     });
-  }
+    trackerFields.result = result.success ? "success" : result.level;
+    record(result, anilistId.id);
+
+    if (result.success) {
+      log(
+        `webhook/playbackstop: ${result.message}`,
+        "done",
+        reqid,
+        trackerFields,
+      );
+      return {
+        tracker: tracker.name,
+        status: 200,
+        statusText: "OK",
+        message: result.message,
+      };
+    } else if (result.retryable) {
+      const item = queue.enqueue(
+        tracker.user,
+        anilistId.id,
+        anilistId.episode,
+        anilistId.season,
+        result.message,
+        anilistId.episode,
+        tracker.name,
+      );
+      log(
+        `webhook/playbackstop: ${result.message} (queued for retry as ${item.id})`,
+        "warn",
+        reqid,
+        trackerFields,
+      );
+      return {
+        tracker: tracker.name,
+        status: 202,
+        statusText: "Accepted",
+        message: `${result.message} (queued for retry)`,
+      };
+    } else {
+      log(
+        `webhook/playbackstop: ${result.message}`,
+        result.level,
+        reqid,
+        trackerFields,
+      );
+      return {
+        tracker: tracker.name,
+        status: result.level == "error" ? 500 : 400,
+        statusText:
+          result.level == "error" ? "Internal Server Error" : "Bad Request",
+        message: result.message,
+      };
+    }
+  };
+
+  const responses: TrackerResponse[] = [];
+  for (const tracker of trackers)
+    responses.push(await scrobbleTracker(tracker));
+
+  return createResponse(responses);
 }
 
 // vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -0,0 +1,191 @@
+import type { MediaInfoPayload } from "lib/jellyfin/webhook";
+import type { JellyfinMiniApi } from "lib/jellyfin/api";
+import type { SeriesMapping } from "lib/config";
+
+import { loadIdMap } from "lib/idmap";
+
+/**
+ * Type for the anime ID resolved from a webhook payload
+ * @property id - Anime ID of the tracker
+ * @property episode - Episode relative to the season, passed on to the scrobbler
+ * @property season - Season relative to the anilist ID, passed on to the scrobbler
+ */
+export type PayloadAnilistId = {
+  id: number;
+  episode: number;
+  season: number;
+};
+
+/**
+ * Parse a provider ID string to an anime ID
+ * @param providerIdString - provider ID as returned by jellyfin
+ * @return {number|undefined} anime ID, undefined if missing or invalid
+ */
+function parseProviderId(providerIdString?: string): number | undefined {
+  const providerId: number = providerIdString
+    ? parseInt(providerIdString, 10)
+    : 0;
+  return providerId == 0 || isNaN(providerId) ? undefined : providerId;
+}
+
+/**
+ * Find the manual mapping for an episode
+ * @param mappings - manual series mappings from the configuration
+ * @param seriesId - Jellyfin series ID
+ * @param season - season number
+ * @param episode - episode number
+ * @return {SeriesMapping|undefined} the most specific matching mapping, undefined if there is none
+ */
+function findMapping(
+  mappings: SeriesMapping[],
+  seriesId: string,
+  season: number,
+  episode: number,
+): SeriesMapping | undefined {
+  const normalize = (id: string): string => id.replace(/-/g, "").toLowerCase();
+
+  const matches = mappings.filter(
+    (m) =>
+      normalize(m.seriesId) == normalize(seriesId) &&
+      (m.season === undefined || m.season == season) &&
+      (m.firstEpisode === undefined || m.firstEpisode <= episode) &&
+      (m.lastEpisode === undefined || m.lastEpisode >= episode),
+  );
+
+  // prefer mappings for a season over mappings for the whole series
+  return matches.find((m) => m.season !== undefined) ?? matches.at(0);
+}
+
+/**
+ * Resolve the anime ID of a tracker for the item in a webhook payload
+ * @async
+ * @param payload - request payload body, or the same properties of an episode queried from jellyfin
+ * @param api - jellyfin api instance
+ * @param provider - name of the jellyfin provider holding the anime IDs of the tracker (case insensitive)
+ * @param mappings - manual series mappings from the configuration, only used for anilist
+ * @return {PayloadAnilistId|undefined} anime ID and relative season, undefined if none was found
+ * @remark Manual mappings are checked first. Otherwise the most specific provider ID wins: an episode level provider ID (e.g. specials and OVAs with their own
+ *         entry) is scrobbled as the first episode of that entry, then the season level provider ID,
+ *         and lastly the series provider ID together with the season number. Series without an anilist
+ *         provider ID fall back to their AniDB, TVDB or TMDB ID using the offline ID map.
+ */
+export async function resolveTrackerId(
+  payload: Pick<
+    MediaInfoPayload,
+    "ItemId" | "SeriesId" | "SeasonId" | "SeasonNumber" | "EpisodeNumber"
+  >,
+  api: JellyfinMiniApi,
+  provider: string,
+  mappings: SeriesMapping[] = [],
+): Promise<PayloadAnilistId | undefined> {
+  // mappings and the ID map only know anilist IDs
+  const isAnilist = provider.toLowerCase() == "anilist";
+
+  const mapping = isAnilist
+    ? findMapping(
+        mappings,
+        payload.SeriesId,
+        payload.SeasonNumber,
+        payload.EpisodeNumber,
+      )
+    : undefined;
+  if (mapping !== undefined) {
+    const episode = payload.EpisodeNumber + (mapping.offset ?? 0);
+    if (episode > 0)
+      return {
+        id: mapping.anilistId,
+        episode: episode,
+        // a season mapping points to the entry of that season
+        season: mapping.season !== undefined ? 1 : payload.SeasonNumber,
+      };
+  }
+
+  const seriesProviderId = parseProviderId(
+    await api.getProviderFromSeries(payload.SeriesId, provider),
+  );
+
+  // ignore episode level provider IDs that are inherited from the series
+  const episodeProviderId = parseProviderId(
+    await api.getProviderFromEpisode(payload.ItemId, provider),
+  );
+  if (episodeProviderId !== undefined && episodeProviderId != seriesProviderId)
+    return { id: episodeProviderId, episode: 1, season: 1 };
+
+  if (payload.SeasonId && payload.SeasonNumber > 0) {
+    const seasonProviderId = parseProviderId(
+      await api.getProviderFromSeason(payload.SeasonId, provider),
+    );
+    if (seasonProviderId !== undefined)
+      return {
+        id: seasonProviderId,
+        episode: payload.EpisodeNumber,
+        season: 1,
+      };
+  }
+
+  if (seriesProviderId !== undefined)
+    return {
+      id: seriesProviderId,
+      episode: payload.EpisodeNumber,
+      season: payload.SeasonNumber,
+    };
+
+  const idMap = isAnilist ? loadIdMap() : undefined;
+  if (idMap !== undefined) {
+    const mapped = idMap.resolve(
+      await api.getProvidersFromSeries(payload.SeriesId),
+      payload.SeasonNumber,
+    );
+    if (mapped !== undefined)
+      return {
+        id: mapped.id,
+        episode: payload.EpisodeNumber,
+        season: mapped.season,
+      };
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the anime ID of a tracker for a movie in a webhook payload
+ * @async
+ * @param payload - request payload body
+ * @param api - jellyfin api instance
+ * @param provider - name of the jellyfin provider holding the anime IDs of the tracker (case insensitive)
+ * @return {PayloadAnilistId|undefined} anime ID, undefined if none was found
+ * @remark Movies are single episode entries, they are scrobbled as the first episode of the movie provider ID.
+ */
+export async function resolveMovieTrackerId(
+  payload: Pick<MediaInfoPayload, "ItemId">,
+  api: JellyfinMiniApi,
+  provider: string,
+): Promise<PayloadAnilistId | undefined> {
+  const movieProviderId = parseProviderId(
+    await api.getProviderFromMovie(payload.ItemId, provider),
+  );
+  if (movieProviderId === undefined) return undefined;
+
+  return { id: movieProviderId, episode: 1, season: 1 };
+}
+
+/**
+ * Resolve the anilist ID for the item in a webhook payload
+ * @async
+ * @param payload - request payload body, or the same properties of an episode queried from jellyfin
+ * @param api - jellyfin api instance
+ * @param mappings - manual series mappings from the configuration
+ * @return {PayloadAnilistId|undefined} anilist ID and relative season, undefined if none was found
+ */
+export async function resolveAnilistId(
+  payload: Pick<
+    MediaInfoPayload,
+    "ItemId" | "SeriesId" | "SeasonId" | "SeasonNumber" | "EpisodeNumber"
+  >,
+  api: JellyfinMiniApi,
+  mappings: SeriesMapping[] = [],
+): Promise<PayloadAnilistId | undefined> {
+  return await resolveTrackerId(payload, api, "anilist", mappings);
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
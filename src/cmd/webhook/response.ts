@@ -0,0 +1,40 @@
+import type { TrackerName } from "lib/config";
+
+/**
+ * Type for the outcome of handling an event for a single tracker
+ * @property tracker - name of the tracker
+ * @property status - HTTP status code
+ * @property statusText - HTTP status text
+ * @property message - message to go along with the outcome
+ */
+export type TrackerResponse = {
+  tracker: TrackerName;
+  status: number;
+  statusText: string;
+  message: string;
+};
+
+/**
+ * Create the response for an event handled for one or more trackers
+ * @param responses - outcome for each tracker
+ * @return {Response} response to send to client
+ * @remark With multiple trackers the response has the most severe status and a line per tracker.
+ */
+export function createResponse(responses: TrackerResponse[]): Response {
+  if (responses.length == 1)
+    return new Response(responses[0].message, {
+      status: responses[0].status,
+      statusText: responses[0].statusText,
+    });
+
+  const worst = responses.reduce((a, b) => (b.status > a.status ? b : a));
+  return new Response(
+    responses.map((r) => `${r.tracker}: ${r.message}`).join("\n"),
+    {
+      status: worst.status,
+      statusText: worst.statusText,
+    },
+  );
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -1,81 +1,478 @@
 import type { UserDataSavedPayload } from "lib/jellyfin/webhook";
 import type { JellyfinMiniApi } from "lib/jellyfin/api";
-import type { AnilistScrobbler } from "lib/scrobbler";
+import type { Tracker } from "lib/tracker";
+import type { ScrobbleQueue } from "lib/queue";
+import type { ScrobbleHistory } from "lib/history";
+import type { ScrobbleResult } from "lib/scrobbler";
+import type { PayloadAnilistId } from "cmd/webhook/resolve";
+import type { LogFields } from "lib/logger";
+import type { SeriesMapping } from "lib/config";
+import type { ScrobbleBatch, ScrobbleCoalescer } from "lib/coalescer";
+import type { TrackerResponse } from "cmd/webhook/response";
 
 import { log } from "lib/logger";
+import { AnilistScrobbler } from "lib/scrobbler";
+import { resolveTrackerId, resolveMovieTrackerId } from "cmd/webhook/resolve";
+import { createResponse } from "cmd/webhook/response";
+import { metrics } from "lib/metrics";
+import { contiguousRanges } from "lib/coalescer";
+
+const SCROBBLE_ITEM_TYPES = ["Episode", "Movie"];
 
 /**
- * Webhook dispatch handler
+ * Item types ratings and favorites are synced for, the score of an entry applies to the whole anime
+ */
+const SYNC_ITEM_TYPES = ["Series", "Movie"];
+
+/**
+ * Create the response for the result of a scrobble or sync
+ * @param tracker - tracker the result belongs to
+ * @param result - result returned by the tracker
+ * @return {TrackerResponse} outcome to send to the client
+ */
+function createTrackerResponse(
+  tracker: Tracker,
+  result: ScrobbleResult,
+): TrackerResponse {
+  if (result.success)
+    return {
+      tracker: tracker.name,
+      status: 200,
+      statusText: "OK",
+      message: result.message,
+    };
+
+  return {
+    tracker: tracker.name,
+    status: result.level == "error" ? 500 : 400,
+    statusText:
+      result.level == "error" ? "Internal Server Error" : "Bad Request",
+    message: result.message,
+  };
+}
+
+/**
+ * Sync the rating and favorite of a series or movie to anilist
  * @async
  * @param payload - request payload body
  * @param reqid - request id
  * @param api - jellyfin api instance
- * @param scrobbler - anilist scrobbler instance
+ * @param mappings - manual series mappings from the configuration
+ * @param scrobbler - anilist scrobbler of the user
+ * @param history - history of handled events
  * @return {Response} response to send to client
+ * @remark Ratings are synced on rating changes, favorites on rating changes (jellyfin saves favorite toggles
+ *         as such) and other user data changes. The jellyfin favorite state overrides the favourite on anilist.
+ *         Episodes are ignored.
  */
-export async function webhookUserDataSaved(
+async function syncUserData(
   payload: UserDataSavedPayload,
   reqid: string,
   api: JellyfinMiniApi,
+  mappings: SeriesMapping[],
   scrobbler: AnilistScrobbler,
+  history: ScrobbleHistory,
 ): Promise<Response> {
-  // we are only interested in toggle played events for episodes
-  // WARN: when an entire season or show is marked as watched, we receive a notification for each episode
-  // XXX: Do we want to handle unscrobble when marked Played=false, if we do see the warning above
-  if (
-    payload.SaveReason != "TogglePlayed" ||
-    !payload.Played ||
-    payload.ItemType != "Episode"
-  ) {
-    const errorMsg = `Event is not for an episode marked as played. SaveReason=${payload.SaveReason} Played=${payload.Played} ItemType=${payload.ItemType}`;
-    log(`webhook/userdatasaved: ${errorMsg}`, "info", reqid);
+  const fields: LogFields = {
+    notificationType: payload.NotificationType,
+    user: scrobbler.user,
+    tracker: scrobbler.name,
+  };
+
+  if (!SYNC_ITEM_TYPES.includes(payload.ItemType)) {
+    const errorMsg = `Event is not for a series or movie, ratings and favorites are not synced. SaveReason=${payload.SaveReason} ItemType=${payload.ItemType}`;
+    log(`webhook/userdatasaved: ${errorMsg}`, "info", reqid, fields);
     return new Response(errorMsg, {
       status: 200,
       statusText: `OK`,
     });
   }
 
-  const anilistIdString = await api.getProviderFromSeries(
-    payload.SeriesId,
-    "anilist",
-  );
+  const isMovie = payload.ItemType == "Movie";
+  const record = (result: ScrobbleResult, anilistId?: number): void =>
+    history.record({
+      reqid: reqid,
+      user: scrobbler.user,
+      tracker: scrobbler.name,
+      event: payload.NotificationType,
+      seriesId: payload.ItemId,
+      series: payload.Name,
+      anilistId: anilistId,
+      result: result,
+    });
 
-  const anilistId: number = anilistIdString ? parseInt(anilistIdString, 10) : 0;
+  let anilistId: PayloadAnilistId | undefined;
+  try {
+    // a series is resolved like the first episode of its first season
+    anilistId = isMovie
+      ? await resolveMovieTrackerId(payload, api, scrobbler.provider)
+      : await resolveTrackerId(
+          {
+            ItemId: payload.ItemId,
+            SeriesId: payload.ItemId,
+            SeasonId: "",
+            SeasonNumber: 1,
+            EpisodeNumber: 1,
+          },
+          api,
+          scrobbler.provider,
+          mappings,
+        );
+  } catch (error) {
+    metrics.jellyfinLookupFailures.inc({ reason: "error" });
+    const errorMsg = `Failed to look up "Provider_${scrobbler.provider}" on jellyfin: ${error instanceof Error ? error.message : "Unknown error"}`;
+    log(`webhook/userdatasaved: ${errorMsg}`, "error", reqid, fields);
+    record({ success: false, level: "error", message: errorMsg });
+    return new Response(errorMsg, {
+      status: 502,
+      statusText: "Bad Gateway",
+    });
+  }
 
-  if (anilistId == 0 || isNaN(anilistId)) {
-    const errorMsg = `No or invalid "Provider_AniList" in payload! Provider_AniList=${payload.Provider_anilist}`;
-    log(`webhook/userdatasaved: ${errorMsg}`, "error", reqid);
-    return new Response(`${errorMsg}`, {
+  if (anilistId === undefined) {
+    metrics.jellyfinLookupFailures.inc({ reason: "not_found" });
+    const errorMsg = `No or invalid "Provider_${scrobbler.provider}" on jellyfin!`;
+    log(`webhook/userdatasaved: ${errorMsg}`, "error", reqid, fields);
+    record({ success: false, level: "error", message: errorMsg });
+    return new Response(errorMsg, {
       status: 404,
-      statusText: `Not found`,
+      statusText: "Not found",
     });
   }
+  fields.anilistId = anilistId.id;
 
   log(
-    `webhook/userdatasaved: Detected as "${payload.SeriesName} - ${payload.EpisodeNumber} - ${payload.Name}" ...`,
+    `webhook/userdatasaved: Detected as ${isMovie ? "movie" : "series"} "${payload.Name}" ...`,
     "info",
     reqid,
+    fields,
   );
 
-  const result = await scrobbler.scrobble(
-    anilistId,
-    payload.EpisodeNumber,
-    payload.SeasonNumber,
+  // jellyfin sends no rating when the rating was cleared
+  const results: ScrobbleResult[] = [];
+  if (
+    payload.SaveReason == "UpdateUserRating" &&
+    scrobbler.ratingSyncEnabled &&
+    typeof payload.Rating == "number"
+  )
+    results.push(await scrobbler.rate(anilistId.id, payload.Rating));
+  if (scrobbler.favouriteSyncEnabled)
+    results.push(await scrobbler.favourite(anilistId.id, payload.Favorite));
+
+  if (results.length == 0) {
+    const msg = `Nothing to sync for anime (${anilistId.id}), the item is not rated.`;
+    log(`webhook/userdatasaved: ${msg}`, "info", reqid, fields);
+    return new Response(msg, {
+      status: 200,
+      statusText: `OK`,
+    });
+  }
+
+  for (const result of results) {
+    metrics.scrobbles.inc({
+      notification_type: payload.NotificationType,
+      level: result.level,
+    });
+    record(result, anilistId.id);
+    log(
+      `webhook/userdatasaved: ${result.message}`,
+      result.success ? "done" : result.level,
+      reqid,
+      { ...fields, result: result.success ? "success" : result.level },
+    );
+  }
+
+  return createResponse(
+    results.map((result) => createTrackerResponse(scrobbler, result)),
   );
+}
 
-  if (result.success) {
-    log(`webhook/userdatasaved: ${result.message}`, "done", reqid);
-    return new Response(result.message, {
+/**
+ * Webhook dispatch handler
+ * @async
+ * @param payload - request payload body
+ * @param reqid - request id
+ * @param api - jellyfin api instance
+ * @param mappings - manual series mappings from the configuration
+ * @param trackers - enabled trackers of the user
+ * @param queue - queue for failed scrobbles
+ * @param history - history of handled events
+ * @param coalescer - optional coalescer for bursts of played episodes
+ * @return {Response} response to send to client
+ */
+export async function webhookUserDataSaved(
+  payload: UserDataSavedPayload,
+  reqid: string,
+  api: JellyfinMiniApi,
+  mappings: SeriesMapping[],
+  trackers: Tracker[],
+  queue: ScrobbleQueue,
+  history: ScrobbleHistory,
+  coalescer?: ScrobbleCoalescer,
+): Promise<Response> {
+  const fields: LogFields = {
+    notificationType: payload.NotificationType,
+    user: trackers[0].user,
+  };
+
+  // ratings and favorites are only synced to anilist, and only when opted in
+  const anilist = trackers.find((t) => t instanceof AnilistScrobbler);
+  if (
+    anilist !== undefined &&
+    ((payload.SaveReason == "UpdateUserRating" &&
+      (anilist.ratingSyncEnabled || anilist.favouriteSyncEnabled)) ||
+      (payload.SaveReason == "UpdateUserData" && anilist.favouriteSyncEnabled))
+  )
+    return await syncUserData(payload, reqid, api, mappings, anilist, history);
+
+  // we are only interested in toggle played events for episodes and movies, marking as unplayed is opt-in
+  // WARN: when an entire season or show is marked as watched, we receive a notification for each episode
+  if (
+    payload.SaveReason != "TogglePlayed" ||
+    (!payload.Played && !trackers.some((t) => t.unscrobbleEnabled)) ||
+    !SCROBBLE_ITEM_TYPES.includes(payload.ItemType)
+  ) {
+    const errorMsg = `Event is not for an episode or movie marked as played. SaveReason=${payload.SaveReason} Played=${payload.Played} ItemType=${payload.ItemType}`;
+    log(`webhook/userdatasaved: ${errorMsg}`, "info", reqid, fields);
+    return new Response(errorMsg, {
       status: 200,
-      statusText: "OK",
+      statusText: `OK`,
+    });
+  }
+
+  // movies are single episode entries with the provider ID on the movie itself
+  const isMovie = payload.ItemType == "Movie";
+
+  // each tracker resolves its own anime ID from the jellyfin provider IDs
+  const scrobbleTracker = async (
+    tracker: Tracker,
+  ): Promise<TrackerResponse> => {
+    const trackerFields: LogFields = { ...fields, tracker: tracker.name };
+    const record = (result: ScrobbleResult, anilistId?: number): void =>
+      history.record({
+        reqid: reqid,
+        user: tracker.user,
+        tracker: tracker.name,
+        event: payload.NotificationType,
+        // movies are recorded with their own ID and name in place of the series
+        seriesId: isMovie ? payload.ItemId : payload.SeriesId,
+        series: isMovie ? payload.Name : payload.SeriesName,
+        season: isMovie ? undefined : payload.SeasonNumber,
+        episode: isMovie ? undefined : payload.EpisodeNumber,
+        anilistId: anilistId,
+        result: result,
+      });
+
+    let anilistId: PayloadAnilistId | undefined;
+    try {
+      anilistId = isMovie
+        ? await resolveMovieTrackerId(payload, api, tracker.provider)
+        : await resolveTrackerId(payload, api, tracker.provider, mappings);
+    } catch (error) {
+      metrics.jellyfinLookupFailures.inc({ reason: "error" });
+      const errorMsg = `Failed to look up "Provider_${tracker.provider}" on jellyfin: ${error instanceof Error ? error.message : "Unknown error"}`;
+      log(`webhook/userdatasaved: ${errorMsg}`, "error", reqid, trackerFields);
+      record({ success: false, level: "error", message: errorMsg });
+      return {
+        tracker: tracker.name,
+        status: 502,
+        statusText: "Bad Gateway",
+        message: errorMsg,
+      };
+    }
+
+    if (anilistId === undefined) {
+      metrics.jellyfinLookupFailures.inc({ reason: "not_found" });
+      const errorMsg =
+        tracker.name == "anilist" && !isMovie
+          ? `No or invalid "Provider_AniList" in payload and no match in the ID map! Provider_AniList=${payload.Provider_anilist}`
+          : `No or invalid "Provider_${tracker.provider}" on jellyfin!`;
+      log(`webhook/userdatasaved: ${errorMsg}`, "error", reqid, trackerFields);
+      record({ success: false, level: "error", message: errorMsg });
+      return {
+        tracker: tracker.name,
+        status: 404,
+        statusText: "Not found",
+        message: errorMsg,
+      };
+    }
+    trackerFields.anilistId = anilistId.id;
+
+    log(
+      isMovie
+        ? `webhook/userdatasaved: Detected as movie "${payload.Name}" ...`
+        : `webhook/userdatasaved: Detected as "${payload.SeriesName} - ${payload.EpisodeNumber} - ${payload.Name}" ...`,
+      "info",
+      reqid,
+      trackerFields,
+    );
+
+    // episodes marked as played are batched, flushUserDataSaved scrobbles the batch
+    if (payload.Played && coalescer !== undefined && !isMovie) {
+      const count = coalescer.add(
+        `${tracker.user}_${payload.SeriesId}`,
+        tracker,
+        reqid,
+        anilistId.id,
+        anilistId.episode,
+        anilistId.season,
+      );
+      const msg = `Episode ${anilistId.episode} of anime (${anilistId.id}) added to batch (${count} episode(s)).`;
+      log(`webhook/userdatasaved: ${msg}`, "info", reqid, trackerFields);
+      record({ success: true, level: "info", message: msg }, anilistId.id);
+      return {
+        tracker: tracker.name,
+        status: 202,
+        statusText: "Accepted",
+        message: msg,
+      };
+    }
+
+    const result = payload.Played
+      ? await tracker.scrobble(
+          anilistId.id,
+          anilistId.episode,
+          anilistId.season,
+        )
+      : await tracker.unscrobble(
+          anilistId.id,
+          anilistId.episode,
+          anilistId.season,
+        );
+
+    metrics.scrobbles.inc({
+      notification_type: payload.NotificationType,
+      level: result.level,
+    });
+    trackerFields.result = result.success ? "success" : result.level;
+    record(result, anilistId.id);
+
+    if (result.success) {
+      log(
+        `webhook/userdatasaved: ${result.message}`,
+        "done",
+        reqid,
+        trackerFields,
+      );
+      return createTrackerResponse(tracker, result);
+    } else if (result.retryable) {
+      const item = queue.enqueue(
+        tracker.user,
+        anilistId.id,
+        anilistId.episode,
+        anilistId.season,
+        result.message,
+        anilistId.episode,
+        tracker.name,
+      );
+      log(
+        `webhook/userdatasaved: ${result.message} (queued for retry as ${item.id})`,
+        "warn",
+        reqid,
+        trackerFields,
+      );
+      return {
+        tracker: tracker.name,
+        status: 202,
+        statusText: "Accepted",
+        message: `${result.message} (queued for retry)`,
+      };
+    } else {
+      log(
+        `webhook/userdatasaved: ${result.message}`,
+        result.level,
+        reqid,
+        trackerFields,
+      );
+      return createTrackerResponse(tracker, result);
+    }
+  };
+
+  // unplayed episodes are only unscrobbled from trackers that opted in
+  const responses: TrackerResponse[] = [];
+  for (const tracker of trackers) {
+    if (!payload.Played && !tracker.unscrobbleEnabled) continue;
+    responses.push(await scrobbleTracker(tracker));
+  }
+
+  return createResponse(responses);
+}
+
+/**
+ * Scrobble a batch of episodes marked as played
+ * @async
+ * @param batch - batch of played episodes
+ * @param queue - queue for failed scrobbles
+ * @param history - history of handled events
+ * @remark Every contiguous range of played episodes is scrobbled as a single update, lowest range first.
+ */
+export async function flushUserDataSaved(
+  batch: ScrobbleBatch,
+  queue: ScrobbleQueue,
+  history: ScrobbleHistory,
+): Promise<void> {
+  const fields: LogFields = {
+    notificationType: "UserDataSaved",
+    user: batch.scrobbler.user,
+    tracker: batch.scrobbler.name,
+    anilistId: batch.anilistId,
+  };
+  for (const range of contiguousRanges(batch.episodes)) {
+    const result = await batch.scrobbler.scrobble(
+      batch.anilistId,
+      range.last,
+      batch.season,
+      range.first,
+    );
+
+    metrics.scrobbles.inc({
+      notification_type: "UserDataSaved",
+      level: result.level,
     });
-  } else {
-    log(`webhook/userdatasaved: ${result.message}`, result.level, reqid);
-    return new Response(result.message, {
-      status: result.level == "error" ? 500 : 400,
-      statusText:
-        result.level == "error" ? "Internal Server Error" : "Bad Request",
+    fields.result = result.success ? "success" : result.level;
+    history.record({
+      reqid: batch.reqid,
+      user: batch.scrobbler.user,
+      tracker: batch.scrobbler.name,
+      event: "UserDataSaved",
+      season: batch.season,
+      episode: range.last,
+      anilistId: batch.anilistId,
+      result: result,
     });
+
+    if (result.success) {
+      log(
+        `webhook/userdatasaved: ${result.message}`,
+        "done",
+        batch.reqid,
+        fields,
+      );
+    } else if (result.retryable) {
+      const item = queue.enqueue(
+        batch.scrobbler.user,
+        batch.anilistId,
+        range.last,
+        batch.season,
+        result.message,
+        range.first,
+        batch.scrobbler.name,
+      );
+      log(
+        `webhook/userdatasaved: ${result.message} (queued for retry as ${item.id})`,
+        "warn",
+        batch.reqid,
+        fields,
+      );
+    } else {
+      log(
+        `webhook/userdatasaved: ${result.message}`,
+        result.level,
+        batch.reqid,
+        fields,
+      );
+    }
   }
 }
+
 // vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
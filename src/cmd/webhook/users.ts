@@ -0,0 +1,34 @@
+import { ANY_USER } from "lib/config";
+
+/**
+ * Normalize a user key or Jellyfin UserId for comparison
+ * @param user - user key or Jellyfin UserId (with or without dashes)
+ * @return {string} normalized user key
+ */
+function normalizeUser(user: string): string {
+  return user.replace(/-/g, "").toLowerCase();
+}
+
+/**
+ * Find the scrobblers for a user
+ * @param scrobblers - scrobblers (or lists of trackers) keyed by user
+ * @param userId - Jellyfin UserId
+ * @param username - Jellyfin username
+ * @return {T|undefined} scrobblers for the user, undefined if the user is not mapped
+ */
+export function findUserScrobbler<T>(
+  scrobblers: { [user: string]: T },
+  userId: string,
+  username: string = userId,
+): T | undefined {
+  if (scrobblers[ANY_USER] !== undefined) return scrobblers[ANY_USER];
+
+  for (const user of Object.keys(scrobblers)) {
+    if (normalizeUser(user) == normalizeUser(userId) || user == username)
+      return scrobblers[user];
+  }
+
+  return undefined;
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
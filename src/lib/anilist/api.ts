@@ -0,0 +1,224 @@
+import type { EntryStatus, UpdateEntryOptions } from "anilist-node";
+
+import axios from "axios";
+import https from "node:https";
+
+import { anilistScheduler, REQUEST_TIMEOUT } from "lib/anilist/scheduler";
+
+/**
+ * Type partial result type for a Media query including its relations
+ */
+export type PartialMediaResult = {
+  id: number;
+  format?: string;
+  episodes?: number;
+  relations: {
+    edges: [
+      {
+        relationType: string;
+        node: {
+          id: number;
+          type: string;
+          format?: string;
+        };
+      },
+    ];
+  };
+};
+
+/**
+ * Type partial result type for a MediaList query
+ */
+export type PartialMediaListResult = {
+  id: number;
+  status: EntryStatus;
+  progress: number;
+  repeat: number;
+  score: number;
+  media: {
+    id: number;
+    episodes?: number;
+  };
+};
+
+/**
+ * Type partial result type for a SaveMediaListEntry mutation
+ */
+export type PartialMediaListEntryResult = {
+  id: number;
+  mediaId: number;
+  status: EntryStatus;
+  progress: number;
+  repeat: number;
+  customLists?: { [name: string]: boolean };
+};
+
+/**
+ * Time media metadata is cached for, episode counts of airing anime can still change
+ */
+const MEDIA_CACHE_TTL: number = 6 * 60 * 60 * 1000;
+
+/**
+ * Media metadata cache shared by all clients, keyed by Anilist Anime ID
+ */
+const mediaCache: Map<number, { media: PartialMediaResult; expires: number }> =
+  new Map();
+
+export class AnilistMiniApi {
+  private client;
+
+  /**
+   * Minimal API Client for Anilist, for queries not covered by anilist-node
+   * @class
+   * @param token - Optional anilist token
+   */
+  public constructor(token?: string) {
+    this.client = axios.create({
+      baseURL: "https://graphql.anilist.co/",
+      timeout: REQUEST_TIMEOUT,
+      httpsAgent: new https.Agent({ keepAlive: true }),
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+
+    // keep track of the rate limit for all requests, including failed ones
+    this.client.interceptors.response.use(
+      (res) => {
+        anilistScheduler.updateLimits(res.status, res.headers);
+        return res;
+      },
+      (error) => {
+        if (axios.isAxiosError(error) && error.response)
+          anilistScheduler.updateLimits(
+            error.response.status,
+            error.response.headers,
+          );
+        throw error;
+      },
+    );
+  }
+
+  /**
+   * Internal GraphQL query function
+   * @param query - GraphQL query
+   * @param variables - variables for the query
+   * @return untyped data from API
+   * @remark Requests go through the shared anilist scheduler.
+   */
+  private async query(
+    query: string,
+    variables: { [name: string]: unknown } = {},
+  ): Promise<unknown> {
+    const name = query.match(/\{\s*(\w+)/)?.[1] ?? "query";
+    const res = await anilistScheduler.schedule(
+      name,
+      async () => await this.client.post("", { query, variables }),
+    );
+    if (res.status !== 200) {
+      throw new Error(`Anilist API returned status ${res.status}!`);
+    } else if (res.data.errors) {
+      throw new Error(
+        `Anilist API returned errors: ${res.data.errors.map((e: { message: string }) => e.message).join(", ")}`,
+      );
+    } else {
+      return res.data.data;
+    }
+  }
+
+  /**
+   * Get anime media including its relations
+   * @param id - Anilist Anime ID
+   * @return {PartialMediaResult} media with relations
+   * @remark Results are cached for a few hours.
+   */
+  public async getMediaRelations(id: number): Promise<PartialMediaResult> {
+    const cached = mediaCache.get(id);
+    if (cached !== undefined && cached.expires > Date.now())
+      return cached.media;
+
+    const res = (await this.query(
+      `query ($id: Int) { Media(id: $id, type: ANIME) { id format episodes ` +
+        `relations { edges { relationType node { id type format } } } } }`,
+      { id },
+    )) as { Media: PartialMediaResult };
+
+    mediaCache.set(id, {
+      media: res.Media,
+      expires: Date.now() + MEDIA_CACHE_TTL,
+    });
+    return res.Media;
+  }
+
+  /**
+   * Get a single entry from the anime lists of a user
+   * @param userId - Anilist user ID
+   * @param mediaId - Anilist Anime ID
+   * @return {PartialMediaListResult|undefined} the entry, undefined if the anime is not on the lists
+   */
+  public async getListEntry(
+    userId: number,
+    mediaId: number,
+  ): Promise<PartialMediaListResult | undefined> {
+    try {
+      const res = (await this.query(
+        `query ($userId: Int, $mediaId: Int) { MediaList(userId: $userId, mediaId: $mediaId, type: ANIME) ` +
+          `{ id status progress repeat score media { id episodes } } }`,
+        { userId, mediaId },
+      )) as { MediaList: PartialMediaListResult | null };
+
+      return res.MediaList ?? undefined;
+    } catch (error) {
+      // anilist responds with 404 when the anime is not on the lists
+      if (axios.isAxiosError(error) && error.response?.status == 404)
+        return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Check if an anime is a favourite of the authenticated user
+   * @param id - Anilist Anime ID
+   * @return {boolean} true if the anime is a favourite
+   * @remark Not cached, the favourites can be changed on anilist at any time.
+   */
+  public async isFavourite(id: number): Promise<boolean> {
+    const res = (await this.query(
+      `query ($id: Int) { Media(id: $id, type: ANIME) { isFavourite } }`,
+      { id },
+    )) as { Media: { isFavourite: boolean } };
+
+    return res.Media.isFavourite;
+  }
+
+  /**
+   * Add an anime to the lists of the authenticated user, including custom lists
+   * @param mediaId - Anilist Anime ID
+   * @param entry - status and progress of the new entry
+   * @param customLists - names of the custom lists to add the entry to
+   * @return {PartialMediaListEntryResult} the saved entry
+   */
+  public async addEntry(
+    mediaId: number,
+    entry: Pick<UpdateEntryOptions, "status" | "progress">,
+    customLists: string[],
+  ): Promise<PartialMediaListEntryResult> {
+    const res = (await this.query(
+      `mutation ($mediaId: Int, $status: MediaListStatus, $progress: Int, $customLists: [String]) { ` +
+        `SaveMediaListEntry(mediaId: $mediaId, status: $status, progress: $progress, customLists: $customLists) ` +
+        `{ id mediaId status progress repeat customLists } }`,
+      {
+        mediaId,
+        status: entry.status,
+        progress: entry.progress,
+        customLists,
+      },
+    )) as { SaveMediaListEntry: PartialMediaListEntryResult };
+
+    return res.SaveMediaListEntry;
+  }
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
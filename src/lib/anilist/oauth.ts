@@ -0,0 +1,70 @@
+import axios from "axios";
+
+/**
+ * Type for the result of exchanging an authorization code
+ * @property accessToken - the access token
+ * @property expiresAt - expiry date of the access token
+ */
+export type AnilistToken = {
+  accessToken: string;
+  expiresAt: Date;
+};
+
+/**
+ * Build the url to authorize a client using the authorization code grant
+ * @param clientId - Anilist API client ID
+ * @param redirectUri - redirect URL configured for the client
+ * @return {string} authorization url
+ */
+export function getAuthorizeUrl(clientId: string, redirectUri: string): string {
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: "code",
+  });
+  return `https://anilist.co/api/v2/oauth/authorize?${params}`;
+}
+
+/**
+ * Exchange an authorization code for an access token
+ * @async
+ * @param clientId - Anilist API client ID
+ * @param clientSecret - Anilist API client secret
+ * @param redirectUri - redirect URL configured for the client
+ * @param code - authorization code received on the redirect URL
+ * @return {AnilistToken} the access token and its expiry
+ */
+export async function exchangeCode(
+  clientId: string,
+  clientSecret: string,
+  redirectUri: string,
+  code: string,
+): Promise<AnilistToken> {
+  const res = await axios.post(
+    "https://anilist.co/api/v2/oauth/token",
+    {
+      grant_type: "authorization_code",
+      client_id: clientId,
+      client_secret: clientSecret,
+      redirect_uri: redirectUri,
+      code: code,
+    },
+    {
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+    },
+  );
+
+  if (res.status !== 200 || typeof res.data.access_token !== "string") {
+    throw new Error(`Anilist token exchange returned status ${res.status}!`);
+  }
+
+  return {
+    accessToken: res.data.access_token,
+    expiresAt: new Date(Date.now() + res.data.expires_in * 1000),
+  };
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -0,0 +1,188 @@
+import axios from "axios";
+
+import { log } from "lib/logger";
+
+/**
+ * Pause used when anilist is rate limiting without telling us for how long
+ */
+const DEFAULT_PAUSE: number = 60 * 1000;
+
+/**
+ * Attempts per request before giving up on a rate limited request
+ */
+const MAX_ATTEMPTS: number = 3;
+
+/**
+ * Waits (in ms) longer than this are logged
+ */
+const WAIT_LOG_THRESHOLD: number = 1000;
+
+/**
+ * Time (in ms) a single request may take before it is abandoned and the next request gets its turn
+ */
+export const REQUEST_TIMEOUT: number = 30 * 1000;
+
+/**
+ * Type for rate limit response headers, lowercase as normalized by axios
+ */
+type RateLimitHeaders = {
+  [name: string]: unknown;
+};
+
+/**
+ * Scheduler that runs anilist requests one at a time across all users
+ * @class
+ * @remark Requests are paused when anilist reports the rate limit is exhausted and rate limited
+ *         requests are retried after the Retry-After delay. Requests taking longer than REQUEST_TIMEOUT fail.
+ */
+export class AnilistScheduler {
+  private waiting: (() => void)[] = [];
+  private busy: boolean = false;
+  private resumeAt: number = 0;
+
+  /**
+   * Number of requests waiting for their turn
+   */
+  public get depth(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Update the rate limit state from the headers of an anilist response
+   * @param status - HTTP status of the response
+   * @param headers - response headers
+   */
+  public updateLimits(status: number, headers: RateLimitHeaders): void {
+    const retryAfter = parseInt(`${headers["retry-after"]}`, 10);
+    const remaining = parseInt(`${headers["x-ratelimit-remaining"]}`, 10);
+    const reset = parseInt(`${headers["x-ratelimit-reset"]}`, 10);
+
+    let resumeAt: number | undefined;
+    if (status == 429) {
+      resumeAt =
+        Date.now() + (isNaN(retryAfter) ? DEFAULT_PAUSE : retryAfter * 1000);
+    } else if (remaining == 0) {
+      resumeAt = isNaN(reset) ? Date.now() + DEFAULT_PAUSE : reset * 1000;
+    }
+
+    if (resumeAt !== undefined && resumeAt > this.resumeAt)
+      this.resumeAt = resumeAt;
+  }
+
+  /**
+   * Check if a request failed because of the rate limit
+   * @param error - error thrown by the request
+   * @return {boolean} true if the request was rate limited
+   */
+  private isRateLimited(error: unknown): boolean {
+    if (axios.isAxiosError(error)) return error.response?.status == 429;
+
+    // anilist-node only exposes the status in the message
+    return error instanceof Error && error.message.includes("429 error code");
+  }
+
+  /**
+   * Fail a request that takes longer than REQUEST_TIMEOUT
+   * @async
+   * @param name - short description of the request for logging
+   * @param request - pending request
+   * @return the result of the request
+   */
+  private async withTimeout<T>(name: string, request: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      return await Promise.race([
+        request,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () =>
+              reject(
+                new Error(
+                  `Request ${name} timed out after ${REQUEST_TIMEOUT / 1000}s.`,
+                ),
+              ),
+            REQUEST_TIMEOUT,
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Wait for our turn to send a request
+   * @async
+   */
+  private async acquire(): Promise<void> {
+    if (!this.busy) {
+      this.busy = true;
+      return;
+    }
+
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  /**
+   * Hand over the turn to the next waiting request
+   */
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.busy = false;
+  }
+
+  /**
+   * Schedule an anilist request
+   * @async
+   * @param name - short description of the request for logging
+   * @param request - function sending the request
+   * @return the result of the request
+   */
+  public async schedule<T>(
+    name: string,
+    request: () => Promise<T>,
+  ): Promise<T> {
+    const queuedAt = Date.now();
+    await this.acquire();
+
+    try {
+      const queued = Date.now() - queuedAt;
+      if (queued > WAIT_LOG_THRESHOLD)
+        log(
+          `anilist: ${name} waited ${(queued / 1000).toFixed(1)}s in queue, ${this.depth} request(s) still queued.`,
+          "info",
+        );
+
+      for (let attempt = 1; ; attempt++) {
+        const pause = this.resumeAt - Date.now();
+        if (pause > 0) {
+          log(
+            `anilist: rate limit reached, pausing ${name} for ${Math.ceil(pause / 1000)}s with ${this.depth} request(s) queued.`,
+            "warn",
+          );
+          await Bun.sleep(pause);
+        }
+
+        try {
+          return await this.withTimeout(name, request());
+        } catch (error) {
+          if (!this.isRateLimited(error) || attempt >= MAX_ATTEMPTS)
+            throw error;
+
+          // anilist-node does not expose the headers
+          if (!axios.isAxiosError(error)) this.updateLimits(429, {});
+        }
+      }
+    } finally {
+      this.release();
+    }
+  }
+}
+
+/**
+ * Scheduler shared by all anilist clients
+ */
+export const anilistScheduler: AnilistScheduler = new AnilistScheduler();
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
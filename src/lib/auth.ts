@@ -0,0 +1,126 @@
+import crypto from "node:crypto";
+
+/**
+ * Type for a parsed IP address
+ * @property family - address family
+ * @property value - address as a number
+ */
+type ParsedIp = {
+  family: 4 | 6;
+  value: bigint;
+};
+
+/**
+ * Parse an IPv4 or IPv6 address
+ * @param ip - the address
+ * @return {ParsedIp|undefined} parsed address, undefined if invalid
+ * @remark IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are parsed as IPv4.
+ */
+function parseIp(ip: string): ParsedIp | undefined {
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) ip = mapped[1];
+
+  if (ip.includes(".")) {
+    const octets = ip.split(".");
+    if (octets.length != 4) return undefined;
+
+    let value = 0n;
+    for (const octet of octets) {
+      const n = Number(octet);
+      if (!/^\d{1,3}$/.test(octet) || n > 255) return undefined;
+      value = (value << 8n) + BigInt(n);
+    }
+    return { family: 4, value };
+  }
+
+  const halves = ip.split("::");
+  if (halves.length > 2) return undefined;
+
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length == 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length == 1 && missing != 0) || missing < 0) return undefined;
+
+  let value = 0n;
+  for (const group of [...head, ...Array(missing).fill("0"), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return undefined;
+    value = (value << 16n) + BigInt(parseInt(group, 16));
+  }
+  return { family: 6, value };
+}
+
+/**
+ * Check if an IP address or CIDR range is valid
+ * @param cidr - IP address or CIDR range (e.g. 192.168.1.0/24)
+ * @return {boolean} validity of the range
+ */
+export function isValidCidr(cidr: string): boolean {
+  const [ip, prefix] = cidr.split("/");
+  const parsed = parseIp(ip);
+  if (parsed === undefined) return false;
+  if (prefix === undefined) return true;
+
+  const bits = Number(prefix);
+  return /^\d+$/.test(prefix) && bits <= (parsed.family == 4 ? 32 : 128);
+}
+
+/**
+ * Check if an IP address is part of any of the allowed ranges
+ * @param ip - the client IP address
+ * @param allowed - allowed IP addresses and CIDR ranges
+ * @return {boolean} true if the address is allowed
+ */
+export function isAllowedIp(ip: string, allowed: string[]): boolean {
+  const client = parseIp(ip);
+  if (client === undefined) return false;
+
+  for (const cidr of allowed) {
+    const [rangeIp, prefix] = cidr.split("/");
+    const range = parseIp(rangeIp);
+    if (range === undefined || range.family != client.family) continue;
+
+    const size = client.family == 4 ? 32n : 128n;
+    const bits = prefix === undefined ? size : BigInt(prefix);
+    if (client.value >> (size - bits) == range.value >> (size - bits))
+      return true;
+  }
+
+  return false;
+}
+
+/**
+ * Get the token passed with a request
+ * @param req - the request
+ * @param url - the parsed request URL
+ * @return {string|undefined} token from the X-Webhook-Token header, Authorization bearer header or token query parameter
+ */
+function getRequestToken(req: Request, url: URL): string | undefined {
+  const header = req.headers.get("x-webhook-token");
+  if (header) return header;
+
+  const authorization = req.headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer "))
+    return authorization.substring(7).trim();
+
+  return url.searchParams.get("token") ?? undefined;
+}
+
+/**
+ * Check if a request carries the shared secret
+ * @param req - the request
+ * @param url - the parsed request URL
+ * @param secret - the shared secret
+ * @return {boolean} true if the token matches the secret
+ */
+export function hasValidToken(req: Request, url: URL, secret: string): boolean {
+  const token = getRequestToken(req, url);
+  if (token === undefined) return false;
+
+  // compare hashes so timingSafeEqual gets equal length buffers
+  return crypto.timingSafeEqual(
+    crypto.createHash("sha256").update(token).digest(),
+    crypto.createHash("sha256").update(secret).digest(),
+  );
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+
+import { contiguousRange, contiguousRanges } from "lib/coalescer";
+
+describe("contiguousRanges", () => {
+  test("keeps episodes after a gap as their own range", () => {
+    expect(contiguousRanges([7, 3, 5, 6])).toEqual([
+      { first: 3, last: 3 },
+      { first: 5, last: 7 },
+    ]);
+  });
+
+  test("merges duplicate episodes", () => {
+    expect(contiguousRanges([1, 2, 2, 3])).toEqual([{ first: 1, last: 3 }]);
+  });
+
+  test("returns no ranges without episodes", () => {
+    expect(contiguousRanges([])).toEqual([]);
+  });
+});
+
+describe("contiguousRange", () => {
+  test("reports episodes after a gap as skipped", () => {
+    expect(contiguousRange([1, 2, 4])).toEqual({
+      first: 1,
+      last: 2,
+      skipped: [4],
+    });
+  });
+});
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -0,0 +1,157 @@
+import type { Tracker } from "lib/tracker";
+
+import { log } from "lib/logger";
+import { metrics } from "lib/metrics";
+
+/**
+ * Type for a batch of played episodes of the same anime and season
+ * @property scrobbler - tracker of the user that played the episodes
+ * @property reqid - request ID of the first event in the batch
+ * @property anilistId - Anime ID of the tracker
+ * @property season - Season relative to the anime ID
+ * @property episodes - played episodes
+ */
+export type ScrobbleBatch = {
+  scrobbler: Tracker;
+  reqid: string;
+  anilistId: number;
+  season: number;
+  episodes: number[];
+};
+
+/**
+ * Type for a contiguous range of episodes
+ * @property first - first episode of the range
+ * @property last - last episode of the range
+ * @property skipped - episodes not part of the range
+ */
+export type EpisodeRange = {
+  first: number;
+  last: number;
+  skipped: number[];
+};
+
+/**
+ * Find the contiguous range of episodes starting from the lowest episode
+ * @param episodes - played episodes
+ * @return {EpisodeRange} contiguous range of episodes
+ */
+export function contiguousRange(episodes: number[]): EpisodeRange {
+  const sorted = [...new Set(episodes)].sort((a, b) => a - b);
+  let last = sorted[0];
+  for (const episode of sorted) {
+    if (episode > last + 1) break;
+    last = episode;
+  }
+
+  return {
+    first: sorted[0],
+    last: last,
+    skipped: sorted.filter((e) => e > last),
+  };
+}
+
+/**
+ * Split episodes into contiguous ranges
+ * @param episodes - played episodes
+ * @return {EpisodeRange[]} contiguous ranges of episodes, lowest range first
+ */
+export function contiguousRanges(
+  episodes: number[],
+): Pick<EpisodeRange, "first" | "last">[] {
+  const ranges: Pick<EpisodeRange, "first" | "last">[] = [];
+  let rest = episodes;
+  while (rest.length > 0) {
+    const range = contiguousRange(rest);
+    ranges.push({ first: range.first, last: range.last });
+    rest = range.skipped;
+  }
+
+  return ranges;
+}
+
+export class ScrobbleCoalescer {
+  private delay: number;
+  private onFlush: (batch: ScrobbleBatch) => Promise<void>;
+  private batches: Map<
+    string,
+    { batch: ScrobbleBatch; timer: ReturnType<typeof setTimeout> }
+  > = new Map();
+
+  /**
+   * Coalesce bursts of played episodes into a single batch
+   * @class
+   * @param delay - time in ms to wait for more episodes before flushing a batch
+   * @param onFlush - function called with each flushed batch
+   * @remark Jellyfin sends a notification for each episode when a season or show is marked as played.
+   */
+  public constructor(
+    delay: number,
+    onFlush: (batch: ScrobbleBatch) => Promise<void>,
+  ) {
+    this.delay = delay;
+    this.onFlush = onFlush;
+  }
+
+  /**
+   * Add a played episode, the batch is flushed once no new episodes arrive within the delay
+   * @param key - key identifying the user and series
+   * @param scrobbler - tracker of the user that played the episode
+   * @param reqid - request ID
+   * @param anilistId - Anime ID of the tracker
+   * @param episode - played episode
+   * @param season - Season relative to the anime ID
+   * @return {number} number of episodes in the batch
+   */
+  public add(
+    key: string,
+    scrobbler: Tracker,
+    reqid: string,
+    anilistId: number,
+    episode: number,
+    season: number,
+  ): number {
+    // batches are per tracker, anime and season, a series can span multiple
+    key = `${key}_${scrobbler.name}_${anilistId}_${season}`;
+
+    const pending = this.batches.get(key);
+    if (pending !== undefined) clearTimeout(pending.timer);
+
+    const batch: ScrobbleBatch = pending?.batch ?? {
+      scrobbler,
+      reqid,
+      anilistId,
+      season,
+      episodes: [],
+    };
+    batch.episodes.push(episode);
+
+    this.batches.set(key, {
+      batch,
+      timer: setTimeout(() => {
+        this.batches.delete(key);
+        this.onFlush(batch).catch((error) => {
+          metrics.scrobbles.inc({
+            notification_type: "UserDataSaved",
+            level: "error",
+          });
+          log(
+            `coalescer: Failed to flush batch for anime (${batch.anilistId}): ${error instanceof Error ? error.message : "Unknown error"}`,
+            "error",
+            batch.reqid,
+            {
+              user: batch.scrobbler.user,
+              tracker: batch.scrobbler.name,
+              anilistId: batch.anilistId,
+              result: "error",
+            },
+          );
+        });
+      }, this.delay),
+    });
+
+    return batch.episodes.length;
+  }
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -5,7 +5,91 @@ import path from "node:path";
 import process from "node:process";
 import toml from "@iarna/toml";
 import { deepmerge } from "deepmerge-ts";
+import type { LoggerConfig } from "lib/logger";
 import { banner, log } from "lib/logger";
+import { isValidCidr } from "lib/auth";
+
+/**
+ * Type for the policy applied when scrobbling to an entry with a given status
+ * @remark resume advances the progress, restart only moves the entry back to watching from the
+ *         first episode, ignore leaves the entry alone.
+ */
+export type EntryPolicy = "resume" | "restart" | "ignore";
+
+/**
+ * Type for AniList related configuration, used globally and per user
+ */
+export type AnilistConfig = {
+  token?: string;
+  tokenExpires?: string;
+  autoAdd: boolean;
+  unscrobble: boolean;
+  rewatch: boolean;
+  paused: EntryPolicy;
+  dropped: EntryPolicy;
+  customList?: string;
+  syncRatings: boolean;
+  syncFavourites: boolean;
+  dryRun: boolean;
+};
+
+/**
+ * Type for the name of a tracker backend
+ */
+export type TrackerName = "anilist" | "myanimelist" | "kitsu";
+
+/**
+ * Names of all tracker backends
+ */
+export const TRACKER_NAMES: TrackerName[] = ["anilist", "myanimelist", "kitsu"];
+
+/**
+ * Type for MyAnimeList and Kitsu related configuration, used globally and per user
+ */
+export type TrackerConfig = {
+  token?: string;
+  autoAdd: boolean;
+  unscrobble: boolean;
+  dryRun: boolean;
+};
+
+/**
+ * Type for the configuration of all enabled trackers of a user
+ */
+export type UserTrackerConfigs = {
+  anilist?: AnilistConfig;
+  myanimelist?: TrackerConfig;
+  kitsu?: TrackerConfig;
+};
+
+/**
+ * Type for per user configuration
+ * @remark Keyed by Jellyfin UserId or NotificationUsername, options not set fall back to the global sections
+ */
+export type UserConfig = {
+  trackers?: TrackerName[];
+  anilist: Partial<AnilistConfig>;
+  myanimelist?: Partial<TrackerConfig>;
+  kitsu?: Partial<TrackerConfig>;
+};
+
+/**
+ * Type for a manual mapping of a Jellyfin series to an AniList entry
+ * @property seriesId - Jellyfin series ID
+ * @property season - only map this season, the AniList ID is the entry of that season
+ * @property firstEpisode - only map episodes from this episode on
+ * @property lastEpisode - only map episodes up to this episode
+ * @property anilistId - Anilist Anime ID
+ * @property offset - added to the episode number, e.g. -12 for the second cour of a season using absolute numbering
+ */
+export type SeriesMapping = {
+  seriesId: string;
+  season?: number;
+  firstEpisode?: number;
+  lastEpisode?: number;
+  anilistId: number;
+  offset?: number;
+};
 
 /**
  * Type for Configuration of jellyfin-webhook-anilist-scrobbler
@@ -14,16 +98,30 @@ export type Config = {
   webhook: {
     bind: string;
     port: number;
-  };
-  anilist: {
+    coalesceDelay: number;
     token?: string;
-    autoAdd: boolean;
+    allowedIps: string[];
   };
+  trackers?: TrackerName[];
+  anilist: AnilistConfig;
+  myanimelist: TrackerConfig;
+  kitsu: TrackerConfig;
   jellyfin: {
+    url?: string;
     apiKey?: string;
   };
+  log: LoggerConfig;
+  users: {
+    [user: string]: UserConfig;
+  };
+  mapping: SeriesMapping[];
 };
 
+/**
+ * User key used when no users are mapped, all Jellyfin users will scrobble to the global tokens
+ */
+export const ANY_USER: string = "*";
+
 const configDir: string = process.env.XDG_CONFIG_HOME
   ? path.join(process.env.XDG_CONFIG_HOME, _DEFINE_PROG)
   : path.join(os.homedir(), ".config", _DEFINE_PROG);
@@ -41,9 +139,38 @@ export function readConfig(): Config {
     webhook: {
       bind: "localhost",
       port: 4091,
+      coalesceDelay: 10,
+      allowedIps: [],
+    },
+    anilist: {
+      autoAdd: true,
+      unscrobble: false,
+      rewatch: false,
+      paused: "ignore",
+      dropped: "ignore",
+      syncRatings: false,
+      syncFavourites: false,
+      dryRun: false,
+    },
+    myanimelist: {
+      autoAdd: true,
+      unscrobble: false,
+      dryRun: false,
+    },
+    kitsu: {
+      autoAdd: true,
+      unscrobble: false,
+      dryRun: false,
     },
-    anilist: { autoAdd: true },
     jellyfin: {},
+    log: {
+      format: "text",
+      level: "info",
+      maxSize: 10 * 1024 * 1024,
+      maxFiles: 5,
+    },
+    users: {},
+    mapping: [],
   };
 
   if (fs.existsSync(configFile) && fs.statSync(configFile).isFile()) {
@@ -87,13 +214,125 @@ export function validateConfig(
   verbose: boolean = false,
 ): boolean {
   let ret = true;
-  if (config.anilist.token === undefined) {
+  for (const [user, trackers] of Object.entries(getUserTrackers(config))) {
+    if (
+      !Array.isArray(trackers) ||
+      trackers.length == 0 ||
+      trackers.some((t) => !TRACKER_NAMES.includes(t))
+    ) {
+      if (verbose) {
+        banner();
+        log(
+          user == ANY_USER
+            ? `Invalid trackers ${JSON.stringify(trackers)}!`
+            : `Invalid trackers ${JSON.stringify(trackers)} for user ${user}!`,
+          "error",
+        );
+      }
+      ret = false;
+    }
+  }
+  for (const [user, trackerConfigs] of Object.entries(
+    getUserTrackerConfigs(config),
+  )) {
+    for (const name of ["myanimelist", "kitsu"] as const) {
+      if (trackerConfigs[name] === undefined) continue;
+      if (trackerConfigs[name].token === undefined) {
+        if (verbose) {
+          banner();
+          log(
+            user == ANY_USER
+              ? `Missing ${name} token!`
+              : `Missing ${name} token for user ${user}!`,
+            "error",
+          );
+        }
+        ret = false;
+      }
+    }
+
+    const anilistConfig = trackerConfigs.anilist;
+    if (anilistConfig === undefined) continue;
+    if (anilistConfig.token === undefined) {
+      if (verbose) {
+        banner();
+        log(
+          user == ANY_USER
+            ? "Missing anilist token!"
+            : `Missing anilist token for user ${user}!`,
+          "error",
+        );
+      }
+      ret = false;
+    } else if (
+      anilistConfig.tokenExpires !== undefined &&
+      new Date(anilistConfig.tokenExpires) < new Date()
+    ) {
+      // an expired token is not fatal, anilist will reject it on init
+      if (verbose) {
+        banner();
+        log(
+          user == ANY_USER
+            ? `Anilist token expired on ${anilistConfig.tokenExpires}, run login again!`
+            : `Anilist token for user ${user} expired on ${anilistConfig.tokenExpires}, run login again!`,
+          "warn",
+        );
+      }
+    }
+    for (const status of ["paused", "dropped"] as const) {
+      if (!["resume", "restart", "ignore"].includes(anilistConfig[status])) {
+        if (verbose) {
+          banner();
+          log(
+            user == ANY_USER
+              ? `Invalid anilist ${status} policy ${anilistConfig[status]}!`
+              : `Invalid anilist ${status} policy ${anilistConfig[status]} for user ${user}!`,
+            "error",
+          );
+        }
+        ret = false;
+      }
+    }
+  }
+  for (const cidr of config.webhook.allowedIps) {
+    if (!isValidCidr(cidr)) {
+      if (verbose) {
+        banner();
+        log(`Invalid IP address or CIDR range ${cidr} in allowedIps!`, "error");
+      }
+      ret = false;
+    }
+  }
+  if (!["text", "json"].includes(config.log.format)) {
     if (verbose) {
       banner();
-      log("Missing anilist token!", "error");
+      log(`Invalid log format ${config.log.format}!`, "error");
     }
     ret = false;
   }
+  if (!["debug", "info", "warn", "error"].includes(config.log.level)) {
+    if (verbose) {
+      banner();
+      log(`Invalid log level ${config.log.level}!`, "error");
+    }
+    ret = false;
+  }
+  for (const mapping of config.mapping) {
+    if (
+      typeof mapping.seriesId != "string" ||
+      !Number.isInteger(mapping.anilistId) ||
+      mapping.anilistId < 1 ||
+      (mapping.firstEpisode !== undefined &&
+        mapping.lastEpisode !== undefined &&
+        mapping.firstEpisode > mapping.lastEpisode)
+    ) {
+      if (verbose) {
+        banner();
+        log(`Invalid mapping ${JSON.stringify(mapping)}!`, "error");
+      }
+      ret = false;
+    }
+  }
   if (config.jellyfin.apiKey === undefined) {
     if (verbose) {
       banner();
@@ -104,4 +343,81 @@ export function validateConfig(
   return ret;
 }
 
+/**
+ * Resolve the anilist configuration for each mapped user
+ * @param config - Configuration objject of type Config
+ * @return {object} anilist configuration keyed by user, or keyed by ANY_USER when no users are mapped
+ */
+export function getUserConfigs(config: Config): {
+  [user: string]: AnilistConfig;
+} {
+  const users = Object.keys(config.users);
+  if (users.length == 0) return { [ANY_USER]: config.anilist };
+
+  const userConfigs: { [user: string]: AnilistConfig } = {};
+  for (const user of users) {
+    // the token is never inherited, each user scrobbles to their own account
+    userConfigs[user] = deepmerge(
+      { ...config.anilist, token: undefined, tokenExpires: undefined },
+      config.users[user].anilist ?? {},
+    ) as AnilistConfig;
+  }
+
+  return userConfigs;
+}
+
+/**
+ * Resolve the enabled trackers for each mapped user
+ * @param config - Configuration objject of type Config
+ * @return {object} tracker names keyed by user, or keyed by ANY_USER when no users are mapped
+ * @remark Users without their own trackers fall back to the global trackers, which default to anilist.
+ */
+export function getUserTrackers(config: Config): {
+  [user: string]: TrackerName[];
+} {
+  const trackers = config.trackers ?? ["anilist"];
+  const users = Object.keys(config.users);
+  if (users.length == 0) return { [ANY_USER]: trackers };
+
+  const userTrackers: { [user: string]: TrackerName[] } = {};
+  for (const user of users) {
+    userTrackers[user] = config.users[user].trackers ?? trackers;
+  }
+
+  return userTrackers;
+}
+
+/**
+ * Resolve the configuration of the enabled trackers for each mapped user
+ * @param config - Configuration objject of type Config
+ * @return {object} tracker configurations keyed by user, or keyed by ANY_USER when no users are mapped
+ */
+export function getUserTrackerConfigs(config: Config): {
+  [user: string]: UserTrackerConfigs;
+} {
+  const anilistConfigs = getUserConfigs(config);
+
+  const userTrackerConfigs: { [user: string]: UserTrackerConfigs } = {};
+  for (const [user, trackers] of Object.entries(getUserTrackers(config))) {
+    const trackerConfigs: UserTrackerConfigs = {};
+    for (const name of trackers) {
+      if (name == "anilist") {
+        trackerConfigs.anilist = anilistConfigs[user];
+      } else if (name == "myanimelist" || name == "kitsu") {
+        // the token is never inherited, each user scrobbles to their own account
+        trackerConfigs[name] =
+          user == ANY_USER
+            ? config[name]
+            : (deepmerge(
+                { ...config[name], token: undefined },
+                config.users[user][name] ?? {},
+              ) as TrackerConfig);
+      }
+    }
+    userTrackerConfigs[user] = trackerConfigs;
+  }
+
+  return userTrackerConfigs;
+}
+
 // vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -0,0 +1,255 @@
+import path from "node:path";
+import fs from "node:fs";
+import { Database } from "bun:sqlite";
+
+import type { ScrobbleResult } from "lib/scrobbler";
+import type { TrackerName } from "lib/config";
+import { configFile } from "lib/config";
+import { log } from "lib/logger";
+
+/**
+ * Type for a handled event in the scrobble history
+ * @property id - history record ID
+ * @property timestamp - timestamp (ms) the event was handled
+ * @property reqid - request ID, or queue item ID for retries
+ * @property user - user key of the scrobbler
+ * @property tracker - tracker the event was scrobbled to
+ * @property event - notification type, or Retry for queued scrobbles
+ * @property seriesId - Jellyfin series ID
+ * @property series - Jellyfin series name
+ * @property season - Jellyfin season number
+ * @property episode - Jellyfin episode number
+ * @property anilistId - Anime ID of the tracker, undefined if it could not be resolved
+ * @property result - result of the scrobble, including the update that was sent
+ */
+export type HistoryRecord = {
+  id: number;
+  timestamp: number;
+  reqid: string;
+  user: string;
+  tracker: TrackerName;
+  event: string;
+  seriesId?: string;
+  series?: string;
+  season?: number;
+  episode?: number;
+  anilistId?: number;
+  result: ScrobbleResult;
+};
+
+/**
+ * Type for filtering the scrobble history
+ * @property user - only records of this user
+ * @property tracker - only records of this tracker
+ * @property series - only records of series with this ID or a name containing this
+ * @property anilistId - only records of this anime ID
+ * @property level - only records with this result level
+ * @property since - only records handled at or after this timestamp (ms)
+ * @property until - only records handled before this timestamp (ms)
+ * @property limit - maximum number of records, newest first
+ */
+export type HistoryFilter = {
+  user?: string;
+  tracker?: TrackerName;
+  series?: string;
+  anilistId?: number;
+  level?: ScrobbleResult["level"];
+  since?: number;
+  until?: number;
+  limit?: number;
+};
+
+/**
+ * Type for a history row as stored in the database
+ */
+type HistoryRow = {
+  id: number;
+  timestamp: number;
+  reqid: string;
+  user: string;
+  tracker: TrackerName;
+  event: string;
+  seriesId: string | null;
+  series: string | null;
+  season: number | null;
+  episode: number | null;
+  anilistId: number | null;
+  success: number;
+  level: ScrobbleResult["level"];
+  message: string;
+  retryable: number;
+  update: string | null;
+};
+
+/**
+ * History database, stored next to the configuration file
+ */
+export const historyFile: string = path.join(
+  path.dirname(configFile),
+  `${path.basename(configFile, path.extname(configFile))}-history.sqlite`,
+);
+
+export class ScrobbleHistory {
+  private db: Database;
+
+  /**
+   * Persistent history of handled events
+   * @class
+   * @param file - path of the history database
+   */
+  public constructor(file: string = historyFile) {
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o750 });
+    this.db = new Database(file, { create: true });
+    this.db.run("PRAGMA journal_mode = WAL;");
+    this.db.run(
+      `CREATE TABLE IF NOT EXISTS history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        reqid TEXT NOT NULL,
+        user TEXT NOT NULL,
+        tracker TEXT NOT NULL DEFAULT 'anilist',
+        event TEXT NOT NULL,
+        seriesId TEXT,
+        series TEXT,
+        season INTEGER,
+        episode INTEGER,
+        anilistId INTEGER,
+        success INTEGER NOT NULL,
+        level TEXT NOT NULL,
+        message TEXT NOT NULL,
+        retryable INTEGER NOT NULL,
+        "update" TEXT
+      );`,
+    );
+    // databases created before trackers were configurable only hold anilist scrobbles
+    const columns = this.db.query("PRAGMA table_info(history);").all() as {
+      name: string;
+    }[];
+    if (!columns.some((c) => c.name == "tracker"))
+      this.db.run(
+        "ALTER TABLE history ADD COLUMN tracker TEXT NOT NULL DEFAULT 'anilist';",
+      );
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS history_timestamp ON history (timestamp);",
+    );
+  }
+
+  /**
+   * Record a handled event
+   * @param record - the handled event
+   * @remark Failures are logged, the history never gets in the way of scrobbling.
+   */
+  public record(record: Omit<HistoryRecord, "id" | "timestamp">): void {
+    try {
+      this.db
+        .query(
+          `INSERT INTO history (timestamp, reqid, user, tracker, event, seriesId, series, season, episode, anilistId,
+            success, level, message, retryable, "update")
+          VALUES ($timestamp, $reqid, $user, $tracker, $event, $seriesId, $series, $season, $episode, $anilistId,
+            $success, $level, $message, $retryable, $update);`,
+        )
+        .run({
+          $timestamp: Date.now(),
+          $reqid: record.reqid,
+          $user: record.user,
+          $tracker: record.tracker,
+          $event: record.event,
+          $seriesId: record.seriesId ?? null,
+          $series: record.series ?? null,
+          $season: record.season ?? null,
+          $episode: record.episode ?? null,
+          $anilistId: record.anilistId ?? null,
+          $success: record.result.success ? 1 : 0,
+          $level: record.result.level,
+          $message: record.result.message,
+          $retryable: record.result.retryable ? 1 : 0,
+          $update: record.result.update
+            ? JSON.stringify(record.result.update)
+            : null,
+        });
+    } catch (error) {
+      log(
+        `history: failed to record event: ${error instanceof Error ? error.message : "Unknown error"}`,
+        "warn",
+        record.reqid,
+      );
+    }
+  }
+
+  /**
+   * Find handled events
+   * @param filter - filter for the records
+   * @return {HistoryRecord[]} matching records, newest first
+   */
+  public find(filter: HistoryFilter = {}): HistoryRecord[] {
+    const where: string[] = [];
+    const params: { [name: string]: string | number } = {};
+    if (filter.user !== undefined) {
+      where.push("user = $user");
+      params.$user = filter.user;
+    }
+    if (filter.tracker !== undefined) {
+      where.push("tracker = $tracker");
+      params.$tracker = filter.tracker;
+    }
+    if (filter.series !== undefined) {
+      where.push("(seriesId = $series OR series LIKE $seriesLike)");
+      params.$series = filter.series;
+      params.$seriesLike = `%${filter.series}%`;
+    }
+    if (filter.anilistId !== undefined) {
+      where.push("anilistId = $anilistId");
+      params.$anilistId = filter.anilistId;
+    }
+    if (filter.level !== undefined) {
+      where.push("level = $level");
+      params.$level = filter.level;
+    }
+    if (filter.since !== undefined) {
+      where.push("timestamp >= $since");
+      params.$since = filter.since;
+    }
+    if (filter.until !== undefined) {
+      where.push("timestamp < $until");
+      params.$until = filter.until;
+    }
+    params.$limit = filter.limit ?? -1;
+
+    const rows = this.db
+      .query(
+        `SELECT * FROM history ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""} ` +
+          "ORDER BY timestamp DESC, id DESC LIMIT $limit;",
+      )
+      .all(params) as HistoryRow[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      timestamp: row.timestamp,
+      reqid: row.reqid,
+      user: row.user,
+      tracker: row.tracker,
+      event: row.event,
+      seriesId: row.seriesId ?? undefined,
+      series: row.series ?? undefined,
+      season: row.season ?? undefined,
+      episode: row.episode ?? undefined,
+      anilistId: row.anilistId ?? undefined,
+      result: {
+        success: row.success == 1,
+        level: row.level,
+        message: row.message,
+        retryable: row.retryable == 1,
+        update: row.update ? JSON.parse(row.update) : undefined,
+      } as ScrobbleResult,
+    }));
+  }
+
+  /**
+   * Close the history database
+   */
+  public close(): void {
+    this.db.close();
+  }
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
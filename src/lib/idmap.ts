@@ -0,0 +1,247 @@
+import fs from "node:fs";
+import path from "node:path";
+import axios from "axios";
+
+import { configFile } from "lib/config";
+import { log } from "lib/logger";
+
+/**
+ * Default source for the ID map, the Fribb anime-lists dataset
+ */
+export const ID_MAP_SOURCE: string =
+  "https://raw.githubusercontent.com/Fribb/anime-lists/master/anime-list-full.json";
+
+/**
+ * ID map file, stored next to the configuration file
+ */
+export const idMapFile: string = path.join(
+  path.dirname(configFile),
+  `${path.basename(configFile, path.extname(configFile))}-idmap.json`,
+);
+
+/**
+ * Type for an entry of the ID map
+ * @property anilist - Anilist Anime ID
+ * @property anidb - AniDB ID
+ * @property tvdb - TVDB series ID
+ * @property tvdbSeason - TVDB season the anime belongs to
+ * @property tmdb - TMDB series ID
+ * @property tmdbSeason - TMDB season the anime belongs to
+ */
+export type IdMapEntry = {
+  anilist: number;
+  anidb?: number;
+  tvdb?: number;
+  tvdbSeason?: number;
+  tmdb?: number;
+  tmdbSeason?: number;
+};
+
+/**
+ * Type for an anilist ID resolved from the ID map
+ * @property id - Anilist Anime ID
+ * @property season - Season relative to the anilist ID
+ */
+export type IdMapResult = {
+  id: number;
+  season: number;
+};
+
+/**
+ * Parse an ID from a dataset or provider ID
+ * @param value - ID as found in the dataset
+ * @return {number|undefined} ID, undefined if missing or invalid
+ */
+function parseId(value: unknown): number | undefined {
+  const id = parseInt(`${value}`, 10);
+  return isNaN(id) || id <= 0 ? undefined : id;
+}
+
+/**
+ * Parse a mapping dataset
+ * @param data - parsed JSON of the Fribb anime-lists or anime-offline-database dataset
+ * @return {IdMapEntry[]} entries that have an anilist ID
+ */
+export function parseIdMap(data: unknown): IdMapEntry[] {
+  const entries: IdMapEntry[] = [];
+
+  if (Array.isArray(data)) {
+    // Fribb anime-lists (or our own file), seasons are only known for TVDB and TMDB
+    for (const item of data as { [key: string]: unknown }[]) {
+      const anilist = parseId(item.anilist_id ?? item.anilist);
+      if (anilist === undefined) continue;
+
+      const season = (item.season ?? {}) as { tvdb?: unknown; tmdb?: unknown };
+      entries.push({
+        anilist: anilist,
+        anidb: parseId(item.anidb_id ?? item.anidb),
+        tvdb: parseId(item.thetvdb_id ?? item.tvdb),
+        tvdbSeason: parseId(season.tvdb ?? item.tvdbSeason),
+        tmdb: parseId(item.themoviedb_id ?? item.tmdb),
+        tmdbSeason: parseId(season.tmdb ?? item.tmdbSeason),
+      });
+    }
+  } else if (
+    typeof data == "object" &&
+    data !== null &&
+    Array.isArray((data as { data?: unknown }).data)
+  ) {
+    // anime-offline-database, only AniDB can be mapped from the source URLs
+    for (const item of (data as { data: { sources?: string[] }[] }).data) {
+      const sources = item.sources ?? [];
+      const anilist = parseId(
+        sources
+          .map((s) => s.match(/^https:\/\/anilist\.co\/anime\/(\d+)/)?.[1])
+          .find((id) => id !== undefined),
+      );
+      if (anilist === undefined) continue;
+
+      entries.push({
+        anilist: anilist,
+        anidb: parseId(
+          sources
+            .map((s) => s.match(/^https:\/\/anidb\.net\/anime\/(\d+)/)?.[1])
+            .find((id) => id !== undefined),
+        ),
+      });
+    }
+  } else {
+    throw new Error("Unknown mapping dataset format!");
+  }
+
+  return entries;
+}
+
+export class IdMap {
+  private entries: IdMapEntry[];
+
+  /**
+   * Offline map of AniDB, TVDB and TMDB IDs to anilist IDs
+   * @class
+   * @param entries - entries of the map
+   */
+  public constructor(entries: IdMapEntry[]) {
+    this.entries = entries;
+  }
+
+  /**
+   * Number of entries in the map
+   */
+  public get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Resolve the provider IDs of a series to an anilist ID
+   * @param providers - provider IDs of the series as returned by jellyfin
+   * @param season - season number
+   * @return {IdMapResult|undefined} anilist ID and relative season, undefined if not in the map
+   * @remark AniDB IDs map to the first season, other seasons are resolved by the scrobbler. TVDB and
+   *         TMDB seasons are mapped to their own anilist ID where the dataset knows them.
+   */
+  public resolve(
+    providers: { [name: string]: string },
+    season: number,
+  ): IdMapResult | undefined {
+    const provider = (name: string): number | undefined =>
+      parseId(
+        Object.entries(providers).find(
+          ([n]) => n.toLowerCase() == name.toLowerCase(),
+        )?.[1],
+      );
+
+    const anidb = provider("AniDB");
+    if (anidb !== undefined) {
+      const entry = this.entries.find((e) => e.anidb == anidb);
+      if (entry !== undefined) return { id: entry.anilist, season: season };
+    }
+
+    for (const [name, key, seasonKey] of [
+      ["Tvdb", "tvdb", "tvdbSeason"],
+      ["Tmdb", "tmdb", "tmdbSeason"],
+    ] as const) {
+      const id = provider(name);
+      if (id === undefined) continue;
+
+      const candidates = this.entries.filter((e) => e[key] == id);
+      if (season > 0) {
+        const entry = candidates.find((e) => e[seasonKey] == season);
+        if (entry !== undefined) return { id: entry.anilist, season: 1 };
+      }
+
+      const first = candidates.find((e) => (e[seasonKey] ?? 1) == 1);
+      if (first !== undefined) return { id: first.anilist, season: season };
+    }
+
+    return undefined;
+  }
+}
+
+let cached: { mtime: number; map?: IdMap } | undefined;
+
+/**
+ * Load the ID map
+ * @param file - path of the ID map file
+ * @return {IdMap|undefined} the ID map, undefined if there is none or it cannot be read
+ * @remark The map is cached until the file changes, read errors are logged once per change.
+ */
+export function loadIdMap(file: string = idMapFile): IdMap | undefined {
+  try {
+    if (!fs.existsSync(file)) return undefined;
+
+    const mtime = fs.statSync(file).mtimeMs;
+    if (cached === undefined || cached.mtime != mtime) {
+      // cache failures as well, a broken map is not read again until it changes
+      cached = { mtime: mtime };
+      cached.map = new IdMap(
+        parseIdMap(JSON.parse(fs.readFileSync(file, "utf8"))),
+      );
+    }
+  } catch (error) {
+    log(
+      `idmap: Failed to load ${file}, ignoring the ID map: ${error instanceof Error ? error.message : "Unknown error"}`,
+      "error",
+    );
+    return undefined;
+  }
+
+  return cached.map;
+}
+
+/**
+ * Refresh the ID map from a dataset
+ * @async
+ * @param source - path or URL of the dataset
+ * @param file - path of the ID map file
+ * @return {number} number of entries in the new map
+ */
+export async function refreshIdMap(
+  source: string,
+  file: string = idMapFile,
+): Promise<number> {
+  let data: unknown;
+  if (/^https?:\/\//.test(source)) {
+    const res = await axios.get(source, { responseType: "json" });
+    if (res.status !== 200)
+      throw new Error(`Downloading ${source} returned status ${res.status}!`);
+    data = res.data;
+  } else {
+    data = JSON.parse(fs.readFileSync(source, "utf8"));
+  }
+
+  const entries = parseIdMap(data);
+  if (entries.length == 0)
+    throw new Error(`No anilist IDs found in ${source}!`);
+
+  const tmpFile = `${file}.tmp`;
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o750 });
+  fs.writeFileSync(tmpFile, JSON.stringify(entries), {
+    encoding: "utf8",
+    mode: 0o600,
+  });
+  fs.renameSync(tmpFile, file);
+
+  return entries.length;
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
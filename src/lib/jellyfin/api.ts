@@ -4,9 +4,9 @@ import https from "node:https";
 import { _DEFINE_PROG, _DEFINE_VER } from "vars";
 
 /**
- * Type partial result type for /Items endpoint when querying a SeriesId
+ * Type partial result type for /Items endpoint when querying an item by ID
  */
-type PartialSeriesItemResult = {
+type PartialItemResult = {
   TotalRecordCount: number;
   StartIndex: number;
   Items: [
@@ -18,12 +18,37 @@ type PartialSeriesItemResult = {
         [name: string]: string;
       };
       SeriesId?: string;
+      SeriesName?: string;
+      SeasonId?: string;
       IndexNumber?: number;
       ParentIndexNumber?: number;
     },
   ];
 };
 
+/**
+ * Type partial result type for /Users endpoint
+ */
+type PartialUserResult = [
+  {
+    Name: string;
+    Id: string;
+  },
+];
+
+/**
+ * Type for a played episode
+ */
+export type PlayedEpisode = {
+  Id: string;
+  Name: string;
+  SeriesId: string;
+  SeriesName: string;
+  SeasonId: string;
+  SeasonNumber: number;
+  EpisodeNumber: number;
+};
+
 export class JellyfinMiniApi {
   private client;
 
@@ -77,23 +102,159 @@ export class JellyfinMiniApi {
     }
   }
 
+  /**
+   * Check if the Jellyfin server is reachable
+   * @return {boolean} true if the server responded
+   */
+  public async ping(): Promise<boolean> {
+    try {
+      await this.query(`/System/Ping`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get all provider IDs of an item
+   * @param itemId - Jellyfin item ID
+   * @param itemType - Jellyfin item type (e.g. Series, Season, Episode)
+   * @return {object} provider IDs keyed by provider name, empty if the item was not found
+   */
+  private async getProvidersFromItem(
+    itemId: string,
+    itemType: string,
+  ): Promise<{ [name: string]: string }> {
+    const res = (await this.query(
+      `/Items` +
+        `?ids=${itemId}&IncludeItemTypes=${itemType}&Fields=ProviderIds,RecursiveItemCount&limit=100&StartIndex=0`,
+    )) as PartialItemResult;
+
+    if (res.TotalRecordCount != 1) return {};
+
+    return res.Items[0].ProviderIds;
+  }
+
+  /**
+   * Get a provider ID from an item
+   * @param itemId - Jellyfin item ID
+   * @param itemType - Jellyfin item type (e.g. Series, Season, Episode)
+   * @param providerName - name of the provider (case insensitive)
+   * @return {string|undefined} the provider ID, undefined if the item has none
+   */
+  private async getProviderFromItem(
+    itemId: string,
+    itemType: string,
+    providerName: string,
+  ): Promise<string | undefined> {
+    const providers = await this.getProvidersFromItem(itemId, itemType);
+    for (const provider of Object.keys(providers)) {
+      if (provider.toLowerCase() == providerName.toLowerCase())
+        return providers[provider];
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get all provider IDs of a series
+   * @param seriesId - Jellyfin series ID
+   * @return {object} provider IDs keyed by provider name
+   */
+  public async getProvidersFromSeries(
+    seriesId: string,
+  ): Promise<{ [name: string]: string }> {
+    return await this.getProvidersFromItem(seriesId, "Series");
+  }
+
+  /**
+   * Get a provider ID from a series
+   * @param seriesId - Jellyfin series ID
+   * @param providerName - name of the provider (case insensitive)
+   * @return {string|undefined} the provider ID, undefined if the series has none
+   */
   public async getProviderFromSeries(
     seriesId: string,
     providerName: string,
   ): Promise<string | undefined> {
+    return await this.getProviderFromItem(seriesId, "Series", providerName);
+  }
+
+  /**
+   * Get a provider ID from a season
+   * @param seasonId - Jellyfin season ID
+   * @param providerName - name of the provider (case insensitive)
+   * @return {string|undefined} the provider ID, undefined if the season has none
+   */
+  public async getProviderFromSeason(
+    seasonId: string,
+    providerName: string,
+  ): Promise<string | undefined> {
+    return await this.getProviderFromItem(seasonId, "Season", providerName);
+  }
+
+  /**
+   * Get a provider ID from an episode
+   * @param episodeId - Jellyfin episode (item) ID
+   * @param providerName - name of the provider (case insensitive)
+   * @return {string|undefined} the provider ID, undefined if the episode has none
+   */
+  public async getProviderFromEpisode(
+    episodeId: string,
+    providerName: string,
+  ): Promise<string | undefined> {
+    return await this.getProviderFromItem(episodeId, "Episode", providerName);
+  }
+
+  /**
+   * Get a provider ID from a movie
+   * @param movieId - Jellyfin movie (item) ID
+   * @param providerName - name of the provider (case insensitive)
+   * @return {string|undefined} the provider ID, undefined if the movie has none
+   */
+  public async getProviderFromMovie(
+    movieId: string,
+    providerName: string,
+  ): Promise<string | undefined> {
+    return await this.getProviderFromItem(movieId, "Movie", providerName);
+  }
+
+  /**
+   * Get all users
+   * @return {object[]} users with their ID and name
+   */
+  public async getUsers(): Promise<{ Id: string; Name: string }[]> {
+    return (await this.query(`/Users`)) as PartialUserResult;
+  }
+
+  /**
+   * Get all played episodes of a user
+   * @param userId - Jellyfin user ID
+   * @return {PlayedEpisode[]} played episodes
+   */
+  public async getPlayedEpisodes(userId: string): Promise<PlayedEpisode[]> {
     const res = (await this.query(
       `/Items` +
-        `?ids=${seriesId}&IncludeItemTypes=Series&Fields=ProviderIds,RecursiveItemCount&limit=100&StartIndex=0`,
-    )) as PartialSeriesItemResult;
+        `?userId=${userId}&IncludeItemTypes=Episode&Recursive=true&IsPlayed=true`,
+    )) as PartialItemResult;
 
-    if (res.TotalRecordCount != 1) return undefined;
+    const episodes: PlayedEpisode[] = [];
+    for (const item of res.Items) {
+      if (item.SeriesId === undefined || item.IndexNumber === undefined)
+        continue;
 
-    for (const provider of Object.keys(res.Items[0].ProviderIds)) {
-      if (provider.toLowerCase() == providerName.toLowerCase())
-        return res.Items[0].ProviderIds[provider];
+      episodes.push({
+        Id: item.Id,
+        Name: item.Name,
+        SeriesId: item.SeriesId,
+        SeriesName: item.SeriesName ?? item.SeriesId,
+        SeasonId: item.SeasonId ?? "",
+        SeasonNumber: item.ParentIndexNumber ?? 1,
+        EpisodeNumber: item.IndexNumber,
+      });
     }
 
-    return undefined;
+    return episodes;
   }
 }
 
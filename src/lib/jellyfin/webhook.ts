@@ -35,6 +35,11 @@ type ExtendMediaInfoPayload = {
   SeasonNumber: number;
 };
 
+/**
+ * Type describing the common properties of Jellyfin webhook payloads for a media item
+ */
+export type MediaInfoPayload = BasePayload & ExtendMediaInfoPayload;
+
 /**
  * User Related Properties of the Jellyfin webhook payload
  * @remark Not exported as this is not usable on it's own but both PlaybackStop and UserDataSaved have this user information
@@ -44,6 +49,11 @@ type ExtendUserEventPayload = {
   NotificationUsername: string;
 };
 
+/**
+ * Type describing the common properties of Jellyfin webhook payloads triggered by a user
+ */
+export type UserEventPayload = BasePayload & ExtendUserEventPayload;
+
 /**
  * Type partially describing the PlaybackStop properties of the Jellyfin webhook payload
  */
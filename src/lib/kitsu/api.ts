@@ -0,0 +1,181 @@
+import axios from "axios";
+import https from "node:https";
+
+import { REQUEST_TIMEOUT } from "lib/anilist/scheduler";
+
+/**
+ * Type for the status of an entry on the Kitsu library
+ */
+export type KitsuStatus =
+  "current" | "planned" | "completed" | "on_hold" | "dropped";
+
+/**
+ * Type partial result type for a library entry resource
+ */
+export type PartialLibraryEntryResult = {
+  id: string;
+  type: "libraryEntries";
+  attributes: {
+    status: KitsuStatus;
+    progress: number;
+    reconsuming: boolean;
+  };
+};
+
+/**
+ * Type partial result type for an anime resource
+ */
+type PartialAnimeResult = {
+  id: string;
+  type: "anime";
+  attributes: {
+    episodeCount: number | null;
+  };
+};
+
+/**
+ * Type partial result type for a user resource
+ */
+type PartialUserResult = {
+  id: string;
+  type: "users";
+  attributes: {
+    name: string;
+  };
+};
+
+export class KitsuMiniApi {
+  private client;
+
+  /**
+   * Minimal JSON:API Client for Kitsu
+   * @class
+   * @param token - Kitsu OAuth access token
+   */
+  public constructor(token?: string) {
+    this.client = axios.create({
+      baseURL: "https://kitsu.app/api/edge/",
+      timeout: REQUEST_TIMEOUT,
+      httpsAgent: new https.Agent({ keepAlive: true }),
+      headers: {
+        Accept: "application/vnd.api+json",
+        "Content-Type": "application/vnd.api+json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+  }
+
+  /**
+   * Internal API query function
+   * @param endpoint - endpoint URI
+   * @param type - type of request
+   * @param data - resource to send with a POST or PATCH request
+   * @return untyped data from API
+   */
+  private async query(
+    endpoint: string,
+    type: "GET" | "POST" | "PATCH" = "GET",
+    data?: unknown,
+  ): Promise<unknown> {
+    const res = await this.client.request({
+      url: endpoint,
+      method: type,
+      data: data !== undefined ? { data } : undefined,
+    });
+    if (res.status !== 200 && res.status !== 201) {
+      throw new Error(
+        `Kitsu API ${type} for ${endpoint} returned status ${res.status}!`,
+      );
+    } else {
+      return res.data.data;
+    }
+  }
+
+  /**
+   * Get the authenticated user
+   * @return {object} ID and name of the user, undefined if the token is not valid
+   */
+  public async getUser(): Promise<{ id: number; name: string } | undefined> {
+    const users = (await this.query(
+      "users?filter[self]=true",
+    )) as PartialUserResult[];
+    if (users.length == 0) return undefined;
+
+    return { id: parseInt(users[0].id, 10), name: users[0].attributes.name };
+  }
+
+  /**
+   * Get the episode count of an anime
+   * @param id - Kitsu Anime ID
+   * @return {number|undefined} episode count, undefined if unknown
+   */
+  public async getEpisodeCount(id: number): Promise<number | undefined> {
+    const anime = (await this.query(
+      `anime/${id}?fields[anime]=episodeCount`,
+    )) as PartialAnimeResult;
+
+    return anime.attributes.episodeCount ?? undefined;
+  }
+
+  /**
+   * Get the library entry of a user for an anime
+   * @param userId - Kitsu user ID
+   * @param animeId - Kitsu Anime ID
+   * @return {PartialLibraryEntryResult|undefined} the entry, undefined if the anime is not in the library
+   */
+  public async getLibraryEntry(
+    userId: number,
+    animeId: number,
+  ): Promise<PartialLibraryEntryResult | undefined> {
+    const entries = (await this.query(
+      `library-entries?filter[userId]=${userId}&filter[animeId]=${animeId}&filter[kind]=anime`,
+    )) as PartialLibraryEntryResult[];
+
+    return entries.at(0);
+  }
+
+  /**
+   * Add an anime to the library of a user
+   * @param userId - Kitsu user ID
+   * @param animeId - Kitsu Anime ID
+   * @param status - status of the new entry
+   * @param progress - progress of the new entry
+   * @return {PartialLibraryEntryResult} the saved entry
+   */
+  public async addLibraryEntry(
+    userId: number,
+    animeId: number,
+    status: KitsuStatus,
+    progress: number,
+  ): Promise<PartialLibraryEntryResult> {
+    return (await this.query("library-entries", "POST", {
+      type: "libraryEntries",
+      attributes: { status, progress },
+      relationships: {
+        anime: { data: { type: "anime", id: `${animeId}` } },
+        user: { data: { type: "users", id: `${userId}` } },
+      },
+    })) as PartialLibraryEntryResult;
+  }
+
+  /**
+   * Update a library entry
+   * @param entryId - Kitsu library entry ID
+   * @param status - new status of the entry
+   * @param progress - new progress of the entry
+   * @return {PartialLibraryEntryResult} the saved entry
+   */
+  public async updateLibraryEntry(
+    entryId: number,
+    status: KitsuStatus,
+    progress: number,
+  ): Promise<PartialLibraryEntryResult> {
+    return (await this.query(`library-entries/${entryId}`, "PATCH", {
+      id: `${entryId}`,
+      type: "libraryEntries",
+      attributes: { status, progress },
+    })) as PartialLibraryEntryResult;
+  }
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -0,0 +1,146 @@
+import type { EntryStatus } from "anilist-node";
+import type { TrackerConfig, TrackerName } from "lib/config";
+import type { AnimeListEntry, ScrobbleUpdate } from "lib/scrobbler";
+import type { KitsuStatus, PartialLibraryEntryResult } from "lib/kitsu/api";
+
+import { ANY_USER } from "lib/config";
+import { ListTracker } from "lib/tracker";
+import { KitsuMiniApi } from "lib/kitsu/api";
+
+/**
+ * Kitsu status for each entry status, rewatches are tracked with reconsuming instead
+ */
+const STATUS_MAP: { [status in EntryStatus]: KitsuStatus } = {
+  CURRENT: "current",
+  PLANNING: "planned",
+  COMPLETED: "completed",
+  DROPPED: "dropped",
+  PAUSED: "on_hold",
+  REPEATING: "current",
+};
+
+/**
+ * Convert a Kitsu library entry to an entry status
+ * @param entry - library entry as returned by Kitsu
+ * @return {EntryStatus} the matching entry status
+ */
+function toEntryStatus(entry: PartialLibraryEntryResult): EntryStatus {
+  if (entry.attributes.reconsuming) return "REPEATING";
+
+  switch (entry.attributes.status) {
+    case "current":
+      return "CURRENT";
+    case "planned":
+      return "PLANNING";
+    case "completed":
+      return "COMPLETED";
+    case "dropped":
+      return "DROPPED";
+    case "on_hold":
+      return "PAUSED";
+  }
+}
+
+export class KitsuTracker extends ListTracker {
+  public readonly name: TrackerName = "kitsu";
+  public readonly provider: string = "Kitsu";
+  private api: KitsuMiniApi;
+  private profileId?: number;
+
+  /**
+   * Tracker for Kitsu
+   * @class
+   * @param config - Kitsu configuration object for the user
+   * @param user - user key the tracker belongs to
+   */
+  public constructor(config: TrackerConfig, user: string = ANY_USER) {
+    super(config, user);
+    this.api = new KitsuMiniApi(this.config.token);
+  }
+
+  /**
+   * Perform some initialization requried
+   * @async
+   */
+  public async init(): Promise<void> {
+    const profile = await this.api.getUser();
+    if (profile === undefined) {
+      throw new Error("Failed to authenticate to kitsu.");
+    } else {
+      this.profileId = profile.id;
+      this.profileName = profile.name;
+    }
+  }
+
+  /**
+   * Get a single entry from the library of the user
+   * @async
+   * @param id - Kitsu Anime ID
+   * @return {AnimeListEntry|undefined} the library entry, undefined if not in the library
+   */
+  public async getListEntry(id: number): Promise<AnimeListEntry | undefined> {
+    if (this.profileId == undefined) throw new Error("Not initialized!");
+
+    const entry = await this.api.getLibraryEntry(this.profileId, id);
+    if (entry === undefined) return undefined;
+
+    return {
+      id: parseInt(entry.id, 10),
+      status: toEntryStatus(entry),
+      progress: entry.attributes.progress,
+      repeat: 0,
+      episodes: await this.getEpisodes(id),
+    };
+  }
+
+  /**
+   * Get the total number of episodes of an anime
+   * @async
+   * @param id - Kitsu Anime ID
+   * @return {number|undefined} episode count, undefined if unknown
+   */
+  protected async getEpisodes(id: number): Promise<number | undefined> {
+    return await this.api.getEpisodeCount(id);
+  }
+
+  /**
+   * Add or update a library entry
+   * @async
+   * @param id - Kitsu Anime ID
+   * @param entryId - Kitsu library entry ID, undefined when adding a new entry
+   * @param status - new status of the entry
+   * @param progress - new progress of the entry
+   * @return {ScrobbleUpdate} the saved entry
+   */
+  protected async saveEntry(
+    id: number,
+    entryId: number | undefined,
+    status: EntryStatus,
+    progress: number,
+  ): Promise<ScrobbleUpdate> {
+    if (this.profileId == undefined) throw new Error("Not initialized!");
+
+    const result =
+      entryId === undefined
+        ? await this.api.addLibraryEntry(
+            this.profileId,
+            id,
+            STATUS_MAP[status],
+            progress,
+          )
+        : await this.api.updateLibraryEntry(
+            entryId,
+            STATUS_MAP[status],
+            progress,
+          );
+
+    return {
+      mediaId: id,
+      entryId: parseInt(result.id, 10),
+      status: toEntryStatus(result),
+      progress: result.attributes.progress,
+    };
+  }
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
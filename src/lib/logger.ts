@@ -1,60 +1,156 @@
 import { _DEFINE_PROG, _DEFINE_VER } from "vars";
+import fs from "node:fs";
+import path from "node:path";
 import tty from "node:tty";
 import process from "node:process";
 
+/**
+ * Type for the minimum level of messages to log
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Type for the type of a log message
+ */
+export type LogType = "error" | "warn" | "step" | "done" | "info" | "debug";
+
+/**
+ * Type for structured fields of a log message, only used by the json format
+ * @property notificationType - Jellyfin NotificationType being handled
+ * @property user - user key of the scrobbler
+ * @property tracker - name of the tracker
+ * @property anilistId - Anime ID of the tracker
+ * @property result - result of the scrobble (success or the result level)
+ */
+export type LogFields = {
+  notificationType?: string;
+  user?: string;
+  tracker?: string;
+  anilistId?: number;
+  result?: string;
+};
+
+/**
+ * Type for logger configuration
+ * @property format - text for human readable lines, json for JSON lines
+ * @property level - minimum level of messages to log
+ * @property file - optional file to log to in addition to stdout/stderr
+ * @property maxSize - size in bytes after which the log file is rotated
+ * @property maxFiles - number of rotated log files to keep
+ */
+export type LoggerConfig = {
+  format: "text" | "json";
+  level: LogLevel;
+  file?: string;
+  maxSize: number;
+  maxFiles: number;
+};
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+const LOG_TYPE_LEVEL: { [type in LogType]: LogLevel } = {
+  debug: "debug",
+  step: "info",
+  info: "info",
+  done: "info",
+  warn: "warn",
+  error: "error",
+};
+const LOG_TYPE_PREFIX: { [type in LogType]: [string, number] } = {
+  debug: ["DD", 90],
+  step: [">>", 33],
+  info: ["II", 34],
+  done: ["OK", 32],
+  warn: ["WW", 33],
+  error: ["!!", 31],
+};
+
 let printBanner = true;
+let loggerConfig: LoggerConfig = {
+  format: "text",
+  level: "info",
+  maxSize: 10 * 1024 * 1024,
+  maxFiles: 5,
+};
+
+/**
+ * Configure the logger
+ * @param config - logger configuration, unset options keep their current value
+ */
+export function configureLogger(config: Partial<LoggerConfig>): void {
+  loggerConfig = { ...loggerConfig, ...config };
+}
+
+/**
+ * Append a line to the log file, rotating it when it grows too large
+ * @param line - the line to append
+ */
+function writeLogFile(line: string): void {
+  const file = loggerConfig.file as string;
+  try {
+    if (fs.existsSync(file) && fs.statSync(file).size >= loggerConfig.maxSize) {
+      for (let i = loggerConfig.maxFiles - 1; i >= 1; i--) {
+        if (fs.existsSync(`${file}.${i}`))
+          fs.renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+      }
+      if (loggerConfig.maxFiles > 0) fs.renameSync(file, `${file}.1`);
+      else fs.rmSync(file);
+    }
+
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o750 });
+    fs.appendFileSync(file, line, { encoding: "utf8", mode: 0o640 });
+  } catch (error) {
+    process.stderr.write(
+      `[!!] Failed to write to log file ${file}: ${error instanceof Error ? error.message : "Unknown error"}\n`,
+    );
+  }
+}
 
 /**
  * Log message
  * @param msg - The message to log
  * @param type - The type of the message
  * @param reqid - Optional request ID associated with the log message
+ * @param fields - Optional structured fields associated with the log message
  */
 export function log(
   msg: string,
-  type: "error" | "warn" | "step" | "done" | "info" = "info",
+  type: LogType = "info",
   reqid?: string,
+  fields: LogFields = {},
 ): void {
-  const useColor: boolean = tty.isatty(process.stdout.fd);
-  const prefix: string = reqid ? `[${reqid}] ` : "";
-  switch (type) {
-    case "error":
-      if (useColor) {
-        process.stderr.write(`\x1b[2K\r[\x1b[31m!!\x1b[0m] ${prefix}${msg}\n`);
-      } else {
-        process.stdout.write(`[!!] ${prefix}${msg}\n`);
-      }
-      break;
-    case "warn":
-      if (useColor) {
-        process.stdout.write(`\x1b[2K\r[\x1b[33mWW\x1b[0m] ${prefix}${msg}\n`);
-      } else {
-        process.stdout.write(`[WW] ${prefix}${msg}\n`);
-      }
-      break;
-    case "info":
-      if (useColor) {
-        process.stdout.write(`\x1b[2K\r[\x1b[34mII\x1b[0m] ${prefix}${msg}\n`);
-      } else {
-        process.stdout.write(`[II] ${prefix}${msg}\n`);
-      }
-      break;
-    case "done":
-      if (useColor) {
-        process.stdout.write(`\x1b[2K\r[\x1b[32mOK\x1b[0m] ${prefix}${msg}\n`);
-      } else {
-        process.stdout.write(`[OK] ${prefix}${msg}\n`);
-      }
-      break;
-    case "step":
-      if (useColor) {
-        process.stdout.write(`\x1b[2K\r[\x1b[33m>>\x1b[0m] ${prefix}${msg}`);
-      } else {
-        process.stdout.write(`[>>] ${prefix}${msg}\n`);
-      }
-      break;
+  const level = LOG_TYPE_LEVEL[type];
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(loggerConfig.level))
+    return;
+
+  const stream = level == "error" ? process.stderr : process.stdout;
+  let line: string;
+  if (loggerConfig.format == "json") {
+    line = `${JSON.stringify({
+      time: new Date().toISOString(),
+      level: level,
+      msg: msg,
+      reqid: reqid,
+      ...fields,
+    })}\n`;
+    stream.write(line);
+  } else {
+    const useColor: boolean = tty.isatty(stream.fd);
+    const prefix: string = reqid ? `[${reqid}] ` : "";
+    const [label, color] = LOG_TYPE_PREFIX[type];
+    line = `[${label}] ${prefix}${msg}\n`;
+    if (useColor) {
+      // steps are overwritten by the next message on a terminal
+      stream.write(
+        `\x1b[2K\r[\x1b[${color}m${label}\x1b[0m] ${prefix}${msg}${type == "step" ? "" : "\n"}`,
+      );
+    } else {
+      stream.write(line);
+    }
   }
+
+  if (loggerConfig.file) writeLogFile(line);
 }
+
 /**
  * Print a banner
  */
@@ -62,9 +158,11 @@ export function banner(): void {
   if (!printBanner) return;
 
   log(`${_DEFINE_PROG} v${_DEFINE_VER}`);
-  process.stdout.write(
-    `${"-".repeat(process.stdout.columns < 80 ? process.stdout.columns : 80)}\n`,
-  );
+  if (loggerConfig.format == "text") {
+    process.stdout.write(
+      `${"-".repeat(process.stdout.columns < 80 ? process.stdout.columns : 80)}\n`,
+    );
+  }
 
   printBanner = false;
 }
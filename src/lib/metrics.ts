@@ -0,0 +1,180 @@
+/**
+ * Type for metric labels
+ */
+type Labels = { [name: string]: string };
+
+/**
+ * Format labels in the Prometheus text format
+ * @param labels - metric labels
+ * @return {string} formatted labels, empty if there are none
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+export class Counter {
+  private name: string;
+  private help: string;
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  /**
+   * Prometheus counter
+   * @class
+   * @param name - metric name
+   * @param help - metric description
+   */
+  public constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  /**
+   * Increase the counter
+   * @param labels - metric labels
+   * @param value - value to increase by
+   */
+  public inc(labels: Labels = {}, value: number = 1): void {
+    const key = formatLabels(labels);
+    const current = this.values.get(key) ?? { labels, value: 0 };
+    current.value += value;
+    this.values.set(key, current);
+  }
+
+  /**
+   * Render the counter in the Prometheus text format
+   * @return {string} rendered metric
+   */
+  public render(): string {
+    let out = `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} counter\n`;
+    for (const [key, { value }] of this.values) {
+      out += `${this.name}${key} ${value}\n`;
+    }
+    return out;
+  }
+}
+
+export class Gauge {
+  private name: string;
+  private help: string;
+  private collect: () => number;
+
+  /**
+   * Prometheus gauge, collected when rendered
+   * @class
+   * @param name - metric name
+   * @param help - metric description
+   * @param collect - function returning the current value
+   */
+  public constructor(name: string, help: string, collect: () => number) {
+    this.name = name;
+    this.help = help;
+    this.collect = collect;
+  }
+
+  /**
+   * Render the gauge in the Prometheus text format
+   * @return {string} rendered metric
+   */
+  public render(): string {
+    return `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} gauge\n${this.name} ${this.collect()}\n`;
+  }
+}
+
+export class Histogram {
+  private name: string;
+  private help: string;
+  private buckets: number[];
+  private values: Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  > = new Map();
+
+  /**
+   * Prometheus histogram
+   * @class
+   * @param name - metric name
+   * @param help - metric description
+   * @param buckets - upper bounds of the buckets
+   */
+  public constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+  }
+
+  /**
+   * Observe a value
+   * @param labels - metric labels
+   * @param value - observed value
+   */
+  public observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    const current = this.values.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bucket, i) => {
+      if (value <= bucket) current.counts[i]++;
+    });
+    current.sum += value;
+    current.count++;
+    this.values.set(key, current);
+  }
+
+  /**
+   * Render the histogram in the Prometheus text format
+   * @return {string} rendered metric
+   */
+  public render(): string {
+    let out = `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} histogram\n`;
+    for (const [key, { labels, counts, sum, count }] of this.values) {
+      this.buckets.forEach((bucket, i) => {
+        out += `${this.name}_bucket${formatLabels({ ...labels, le: `${bucket}` })} ${counts[i]}\n`;
+      });
+      out += `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}\n`;
+      out += `${this.name}_sum${key} ${sum}\n`;
+      out += `${this.name}_count${key} ${count}\n`;
+    }
+    return out;
+  }
+}
+
+/**
+ * Metrics exposed by the webhook
+ */
+export const metrics = {
+  scrobbles: new Counter(
+    "anilist_scrobbler_scrobbles_total",
+    "Scrobbles by notification type and result level.",
+  ),
+  retries: new Counter(
+    "anilist_scrobbler_retries_total",
+    "Retries of queued scrobbles by result.",
+  ),
+  jellyfinLookupFailures: new Counter(
+    "anilist_scrobbler_jellyfin_lookup_failures_total",
+    "Failed anilist ID lookups on jellyfin by reason.",
+  ),
+  requestDuration: new Histogram(
+    "anilist_scrobbler_request_duration_seconds",
+    "Webhook request latency by method and status.",
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  ),
+};
+
+/**
+ * Render metrics in the Prometheus text format
+ * @param extra - additional metrics to render, e.g. gauges
+ * @return {string} rendered metrics
+ */
+export function renderMetrics(extra: Gauge[] = []): string {
+  return [...Object.values(metrics), ...extra].map((m) => m.render()).join("");
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
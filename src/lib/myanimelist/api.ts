@@ -0,0 +1,127 @@
+import axios from "axios";
+import https from "node:https";
+
+import { REQUEST_TIMEOUT } from "lib/anilist/scheduler";
+
+/**
+ * Type for the status of an entry on the MyAnimeList anime list
+ */
+export type MyAnimeListStatus =
+  "watching" | "completed" | "on_hold" | "dropped" | "plan_to_watch";
+
+/**
+ * Type partial result type for the list status of an anime
+ */
+export type PartialListStatusResult = {
+  status: MyAnimeListStatus;
+  num_episodes_watched: number;
+  is_rewatching: boolean;
+};
+
+/**
+ * Type partial result type for /anime/{id} endpoint
+ */
+export type PartialAnimeResult = {
+  id: number;
+  title: string;
+  num_episodes: number;
+  my_list_status?: PartialListStatusResult;
+};
+
+/**
+ * Type partial result type for /users/@me endpoint
+ */
+type PartialUserResult = {
+  id: number;
+  name: string;
+};
+
+export class MyAnimeListMiniApi {
+  private client;
+
+  /**
+   * Minimal API Client for MyAnimeList
+   * @class
+   * @param token - MyAnimeList OAuth access token
+   */
+  public constructor(token?: string) {
+    this.client = axios.create({
+      baseURL: "https://api.myanimelist.net/v2/",
+      timeout: REQUEST_TIMEOUT,
+      httpsAgent: new https.Agent({ keepAlive: true }),
+      headers: {
+        Accept: "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    });
+  }
+
+  /**
+   * Internal API query function
+   * @param endpoint - endpoint URI
+   * @param type - type of request
+   * @param data - form fields to send with a PATCH request
+   * @return untyped data from API
+   */
+  private async query(
+    endpoint: string,
+    type: "GET" | "PATCH" = "GET",
+    data?: { [name: string]: string | number | boolean },
+  ): Promise<unknown> {
+    const res =
+      type == "GET"
+        ? await this.client.get(endpoint)
+        : await this.client.patch(
+            endpoint,
+            new URLSearchParams(
+              Object.entries(data ?? {}).map(([k, v]) => [k, `${v}`]),
+            ),
+          );
+    if (res.status !== 200) {
+      throw new Error(
+        `MyAnimeList API ${type} for ${endpoint} returned status ${res.status}!`,
+      );
+    } else {
+      return res.data;
+    }
+  }
+
+  /**
+   * Get the authenticated user
+   * @return {object} ID and name of the user
+   */
+  public async getUser(): Promise<PartialUserResult> {
+    return (await this.query("users/@me")) as PartialUserResult;
+  }
+
+  /**
+   * Get an anime including the list status of the authenticated user
+   * @param id - MyAnimeList Anime ID
+   * @return {PartialAnimeResult} the anime, my_list_status is undefined if not on the list
+   */
+  public async getAnime(id: number): Promise<PartialAnimeResult> {
+    return (await this.query(
+      `anime/${id}?fields=num_episodes,my_list_status`,
+    )) as PartialAnimeResult;
+  }
+
+  /**
+   * Add or update an anime on the list of the authenticated user
+   * @param id - MyAnimeList Anime ID
+   * @param status - new status of the entry
+   * @param watched - new number of watched episodes
+   * @return {PartialListStatusResult} the saved list status
+   */
+  public async updateListStatus(
+    id: number,
+    status: MyAnimeListStatus,
+    watched: number,
+  ): Promise<PartialListStatusResult> {
+    return (await this.query(`anime/${id}/my_list_status`, "PATCH", {
+      status: status,
+      num_watched_episodes: watched,
+    })) as PartialListStatusResult;
+  }
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
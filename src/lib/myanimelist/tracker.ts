@@ -0,0 +1,137 @@
+import type { EntryStatus } from "anilist-node";
+import type { TrackerConfig, TrackerName } from "lib/config";
+import type { AnimeListEntry, ScrobbleUpdate } from "lib/scrobbler";
+import type {
+  MyAnimeListStatus,
+  PartialListStatusResult,
+} from "lib/myanimelist/api";
+
+import { ANY_USER } from "lib/config";
+import { ListTracker } from "lib/tracker";
+import { MyAnimeListMiniApi } from "lib/myanimelist/api";
+
+/**
+ * MyAnimeList status for each entry status, rewatches are tracked with is_rewatching instead
+ */
+const STATUS_MAP: { [status in EntryStatus]: MyAnimeListStatus } = {
+  CURRENT: "watching",
+  PLANNING: "plan_to_watch",
+  COMPLETED: "completed",
+  DROPPED: "dropped",
+  PAUSED: "on_hold",
+  REPEATING: "watching",
+};
+
+/**
+ * Convert a MyAnimeList list status to an entry status
+ * @param listStatus - list status as returned by MyAnimeList
+ * @return {EntryStatus} the matching entry status
+ */
+function toEntryStatus(listStatus: PartialListStatusResult): EntryStatus {
+  if (listStatus.is_rewatching) return "REPEATING";
+
+  switch (listStatus.status) {
+    case "watching":
+      return "CURRENT";
+    case "plan_to_watch":
+      return "PLANNING";
+    case "completed":
+      return "COMPLETED";
+    case "dropped":
+      return "DROPPED";
+    case "on_hold":
+      return "PAUSED";
+  }
+}
+
+export class MyAnimeListTracker extends ListTracker {
+  public readonly name: TrackerName = "myanimelist";
+  public readonly provider: string = "MyAnimeList";
+  private api: MyAnimeListMiniApi;
+
+  /**
+   * Tracker for MyAnimeList
+   * @class
+   * @param config - MyAnimeList configuration object for the user
+   * @param user - user key the tracker belongs to
+   * @remark MyAnimeList has no list entry IDs, entries are identified by the anime ID.
+   */
+  public constructor(config: TrackerConfig, user: string = ANY_USER) {
+    super(config, user);
+    this.api = new MyAnimeListMiniApi(this.config.token);
+  }
+
+  /**
+   * Perform some initialization requried
+   * @async
+   */
+  public async init(): Promise<void> {
+    const profile = await this.api.getUser();
+    if (profile.id == undefined) {
+      throw new Error("Failed to authenticate to myanimelist.");
+    } else {
+      this.profileName = profile.name;
+    }
+  }
+
+  /**
+   * Get a single entry from the anime list of the user
+   * @async
+   * @param id - MyAnimeList Anime ID
+   * @return {AnimeListEntry|undefined} the list entry, undefined if not on the list
+   */
+  public async getListEntry(id: number): Promise<AnimeListEntry | undefined> {
+    const anime = await this.api.getAnime(id);
+    if (anime.my_list_status === undefined) return undefined;
+
+    return {
+      id: anime.id,
+      status: toEntryStatus(anime.my_list_status),
+      progress: anime.my_list_status.num_episodes_watched,
+      repeat: 0,
+      // MyAnimeList reports 0 episodes when the count is unknown
+      episodes: anime.num_episodes || undefined,
+    };
+  }
+
+  /**
+   * Get the total number of episodes of an anime
+   * @async
+   * @param id - MyAnimeList Anime ID
+   * @return {number|undefined} episode count, undefined if unknown
+   */
+  protected async getEpisodes(id: number): Promise<number | undefined> {
+    return (await this.api.getAnime(id)).num_episodes || undefined;
+  }
+
+  /**
+   * Add or update a list entry
+   * @async
+   * @param id - MyAnimeList Anime ID
+   * @param entryId - unused, MyAnimeList entries are identified by the anime ID
+   * @param status - new status of the entry
+   * @param progress - new progress of the entry
+   * @return {ScrobbleUpdate} the saved entry
+   */
+  protected async saveEntry(
+    id: number,
+    entryId: number | undefined,
+    status: EntryStatus,
+    progress: number,
+  ): Promise<ScrobbleUpdate> {
+    const result = await this.api.updateListStatus(
+      id,
+      STATUS_MAP[status],
+      progress,
+    );
+
+    return {
+      mediaId: id,
+      entryId: entryId,
+      status: toEntryStatus(result),
+      progress: result.num_episodes_watched,
+    };
+  }
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -0,0 +1,107 @@
+import type { Tracker } from "lib/tracker";
+import type { ScrobbleResult } from "lib/scrobbler";
+
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+
+import { ScrobbleQueue } from "lib/queue";
+import { createRetryHandler } from "lib/trackers";
+
+/**
+ * Create a tracker that records its scrobbles
+ * @param dryRun - tracker is in dry-run mode
+ * @return {object} the tracker and the scrobbled anime IDs
+ */
+function createTracker(dryRun: boolean): {
+  tracker: Tracker;
+  scrobbled: number[];
+} {
+  const scrobbled: number[] = [];
+  const tracker: Tracker = {
+    name: "anilist",
+    provider: "AniList",
+    user: "alice",
+    profile: "alice",
+    unscrobbleEnabled: false,
+    dryRun: dryRun,
+    init: async () => {},
+    getListEntry: async () => undefined,
+    scrobble: async (id: number): Promise<ScrobbleResult> => {
+      scrobbled.push(id);
+      return {
+        success: true,
+        level: "info",
+        message: dryRun ? `[dry-run] Would update anime (${id}).` : "ok",
+      };
+    },
+    unscrobble: async (): Promise<ScrobbleResult> => ({
+      success: false,
+      level: "info",
+      message: "Unscrobbling is disabled.",
+    }),
+  };
+
+  return { tracker, scrobbled };
+}
+
+describe("ScrobbleQueue", () => {
+  let dir: string;
+  let file: string;
+  let queue: ScrobbleQueue;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "anilist-scrobbler-"));
+    file = path.join(dir, "queue.json");
+    queue = new ScrobbleQueue(file);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("keeps items of dry-run trackers queued", async () => {
+    // make the queued item due right away
+    const item = { ...queue.enqueue("alice", 154587, 7, 1, "network error") };
+    item.nextAttempt = 0;
+    fs.writeFileSync(file, JSON.stringify([item]));
+    const { tracker, scrobbled } = createTracker(true);
+
+    const results: ScrobbleResult[] = [];
+    await queue.retryDue(createRetryHandler({ alice: [tracker] }), (_, r) =>
+      results.push(r),
+    );
+
+    expect(scrobbled).toEqual([]);
+    expect(results).toEqual([]);
+    expect(queue.list()).toEqual([item]);
+  });
+
+  test("moves a corrupt queue file aside", () => {
+    fs.writeFileSync(file, '[{"id": "abc"');
+
+    expect(queue.list()).toEqual([]);
+    expect(fs.existsSync(file)).toBe(false);
+    expect(fs.readdirSync(dir).some((f) => f.includes(".corrupt-"))).toBe(true);
+
+    queue.enqueue("alice", 154587, 7, 1, "network error");
+    expect(queue.list().length).toBe(1);
+  });
+
+  test("removes items after a successful retry", async () => {
+    const item = queue.enqueue("alice", 154587, 7, 1, "network error");
+    const { tracker, scrobbled } = createTracker(false);
+
+    const result = await queue.retry(
+      item,
+      createRetryHandler({ alice: [tracker] }),
+    );
+
+    expect(result?.success).toBe(true);
+    expect(scrobbled).toEqual([154587]);
+    expect(queue.list()).toEqual([]);
+  });
+});
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -0,0 +1,311 @@
+import fs from "node:fs";
+import path from "node:path";
+
+import type { ScrobbleResult } from "lib/scrobbler";
+import type { TrackerName } from "lib/config";
+import { configFile } from "lib/config";
+import { log } from "lib/logger";
+
+/**
+ * Type for a failed scrobble waiting to be retried
+ * @property id - queue item ID
+ * @property user - user key of the scrobbler
+ * @property tracker - tracker to scrobble to, undefined for items queued before trackers were configurable (anilist)
+ * @property anilistId - Anime ID of the tracker
+ * @property episode - Watched episode
+ * @property season - Watched season relative to the anime ID
+ * @property firstEpisode - First watched episode when scrobbling a range of episodes
+ * @property attempts - number of failed attempts
+ * @property createdAt - timestamp (ms) the item was first queued
+ * @property nextAttempt - timestamp (ms) of the next retry
+ * @property lastError - message of the last failed attempt
+ */
+export type QueueItem = {
+  id: string;
+  user: string;
+  tracker?: TrackerName;
+  anilistId: number;
+  episode: number;
+  season: number;
+  firstEpisode: number;
+  attempts: number;
+  createdAt: number;
+  nextAttempt: number;
+  lastError: string;
+};
+
+/**
+ * Type for a function that retries a queued scrobble, undefined leaves the item untouched (e.g. in dry-run mode)
+ */
+export type QueueRetryHandler = (
+  item: QueueItem,
+) => Promise<ScrobbleResult | undefined>;
+
+const RETRY_BASE_DELAY: number = 60 * 1000;
+const RETRY_MAX_DELAY: number = 60 * 60 * 1000;
+const RETRY_INTERVAL: number = 30 * 1000;
+
+/**
+ * Items are discarded after this many failed attempts or once they are older than RETRY_MAX_AGE
+ */
+const RETRY_MAX_ATTEMPTS: number = 24;
+const RETRY_MAX_AGE: number = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Queue file, stored next to the configuration file
+ */
+export const queueFile: string = path.join(
+  path.dirname(configFile),
+  `${path.basename(configFile, path.extname(configFile))}-queue.json`,
+);
+
+export class ScrobbleQueue {
+  private file: string;
+  private timer?: ReturnType<typeof setInterval>;
+  private running: boolean = false;
+
+  /**
+   * Persistent queue of failed scrobbles
+   * @class
+   * @param file - path of the queue file
+   * @remark The queue is read from disk before every change so the CLI and webhook can share it.
+   */
+  public constructor(file: string = queueFile) {
+    this.file = file;
+  }
+
+  /**
+   * Read queue items from disk
+   * @return {QueueItem[]} queued items, oldest first
+   * @remark A corrupt queue file is moved aside and an empty queue is returned.
+   */
+  private read(): QueueItem[] {
+    if (!fs.existsSync(this.file)) return [];
+
+    try {
+      const items: unknown = JSON.parse(fs.readFileSync(this.file, "utf8"));
+      if (!Array.isArray(items)) throw new Error("Not a list of queue items!");
+      return items as QueueItem[];
+    } catch (error) {
+      // moving the file aside keeps it for inspection and makes sure the error is only logged once
+      const corruptFile = `${this.file}.corrupt-${Date.now()}`;
+      let moved = true;
+      try {
+        fs.renameSync(this.file, corruptFile);
+      } catch {
+        // the next write replaces the corrupt file
+        moved = false;
+      }
+      log(
+        `queue: Failed to read ${this.file}${moved ? `, moved it to ${corruptFile}` : ""}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        "error",
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Write queue items to disk
+   * @param items - queued items
+   */
+  private write(items: QueueItem[]): void {
+    const tmpFile = `${this.file}.tmp`;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o750 });
+    fs.writeFileSync(tmpFile, JSON.stringify(items, null, 2), {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+    fs.renameSync(tmpFile, this.file);
+  }
+
+  /**
+   * Calculate the exponential backoff delay
+   * @param attempts - number of failed attempts
+   * @return {number} delay in ms
+   */
+  private backoff(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), RETRY_MAX_DELAY);
+  }
+
+  /**
+   * List queued items
+   * @return {QueueItem[]} queued items, oldest first
+   */
+  public list(): QueueItem[] {
+    return this.read();
+  }
+
+  /**
+   * Add a failed scrobble to the queue
+   * @param user - user key of the scrobbler
+   * @param anilistId - Anime ID of the tracker
+   * @param episode - Watched episode
+   * @param season - Watched season relative to the anime ID
+   * @param error - message of the failed attempt
+   * @param firstEpisode - First watched episode when scrobbling a range of episodes
+   * @param tracker - tracker to scrobble to
+   * @return {QueueItem} the queued item
+   * @remark Scrobbles for the same user, tracker, anime and episode are only queued once.
+   */
+  public enqueue(
+    user: string,
+    anilistId: number,
+    episode: number,
+    season: number,
+    error: string,
+    firstEpisode: number = episode,
+    tracker: TrackerName = "anilist",
+  ): QueueItem {
+    const items = this.read();
+    let item = items.find(
+      (i) =>
+        i.user == user &&
+        (i.tracker ?? "anilist") == tracker &&
+        i.anilistId == anilistId &&
+        i.episode == episode &&
+        i.season == season,
+    );
+
+    if (item === undefined) {
+      const now = Date.now();
+      item = {
+        id: Bun.hash
+          .crc32(`${now}_${user}_${tracker}_${anilistId}_${season}_${episode}`)
+          .toString(16),
+        user,
+        tracker,
+        anilistId,
+        episode,
+        season,
+        firstEpisode,
+        attempts: 0,
+        createdAt: now,
+        nextAttempt: now,
+        lastError: error,
+      };
+      items.push(item);
+    }
+
+    item.firstEpisode = Math.min(item.firstEpisode ?? episode, firstEpisode);
+    item.attempts++;
+    item.nextAttempt = Date.now() + this.backoff(item.attempts);
+    item.lastError = error;
+    this.write(items);
+
+    return item;
+  }
+
+  /**
+   * Remove an item from the queue
+   * @param id - queue item ID
+   * @return {boolean} true if the item was removed
+   */
+  public remove(id: string): boolean {
+    const items = this.read();
+    const remaining = items.filter((i) => i.id != id);
+    if (remaining.length == items.length) return false;
+
+    this.write(remaining);
+    return true;
+  }
+
+  /**
+   * Retry a queued item
+   * @async
+   * @param item - queued item
+   * @param handler - function retrying the scrobble
+   * @return {ScrobbleResult} result of the retry
+   * @remark Items are removed unless the result can be retried again, in which case the backoff is increased.
+   *         Items that ran out of attempts or are too old are removed and returned as not retryable.
+   *         Items skipped by the handler stay in the queue as they are and undefined is returned.
+   */
+  public async retry(
+    item: QueueItem,
+    handler: QueueRetryHandler,
+  ): Promise<ScrobbleResult | undefined> {
+    const result = await handler(item);
+    if (result === undefined) {
+      return undefined;
+    } else if (
+      result.retryable &&
+      (item.attempts + 1 >= RETRY_MAX_ATTEMPTS ||
+        Date.now() - item.createdAt >= RETRY_MAX_AGE)
+    ) {
+      this.remove(item.id);
+      return {
+        ...result,
+        retryable: false,
+        message: `${result.message} (giving up after ${item.attempts + 1} attempts)`,
+      };
+    } else if (result.retryable) {
+      this.enqueue(
+        item.user,
+        item.anilistId,
+        item.episode,
+        item.season,
+        result.message,
+        item.firstEpisode,
+        item.tracker,
+      );
+    } else {
+      this.remove(item.id);
+    }
+
+    return result;
+  }
+
+  /**
+   * Retry all due items
+   * @async
+   * @param handler - function retrying the scrobble
+   * @param onResult - optional callback for each retry result, not called for skipped items
+   */
+  public async retryDue(
+    handler: QueueRetryHandler,
+    onResult?: (item: QueueItem, result: ScrobbleResult) => void,
+  ): Promise<void> {
+    for (const item of this.read()) {
+      if (item.nextAttempt > Date.now()) continue;
+      const result = await this.retry(item, handler);
+      if (result !== undefined && onResult) onResult(item, result);
+    }
+  }
+
+  /**
+   * Start retrying due items in the background
+   * @param handler - function retrying the scrobble
+   * @param onResult - optional callback for each retry result
+   */
+  public start(
+    handler: QueueRetryHandler,
+    onResult?: (item: QueueItem, result: ScrobbleResult) => void,
+  ): void {
+    if (this.timer !== undefined) return;
+
+    this.timer = setInterval(async () => {
+      if (this.running) return;
+      this.running = true;
+      try {
+        await this.retryDue(handler, onResult);
+      } catch (error) {
+        // keep retrying on the next interval, e.g. after a corrupt queue file was fixed
+        log(
+          `queue: ${error instanceof Error ? error.message : "Unknown error"}`,
+          "error",
+        );
+      } finally {
+        this.running = false;
+      }
+    }, RETRY_INTERVAL);
+  }
+
+  /**
+   * Stop retrying items in the background
+   */
+  public stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
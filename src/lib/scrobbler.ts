@@ -1,32 +1,161 @@
-import type { Config } from "lib/config";
-import type { UpdatedEntry, UpdateEntryOptions } from "anilist-node";
+import type { AnilistConfig, EntryPolicy, TrackerName } from "lib/config";
+import type { Tracker } from "lib/tracker";
+import type {
+  EntryStatus,
+  ScoreFormat,
+  UpdatedEntry,
+  UpdateEntryOptions,
+} from "anilist-node";
 
 import AniList from "anilist-node";
+import { ANY_USER } from "lib/config";
+import { AnilistMiniApi } from "lib/anilist/api";
+import { anilistScheduler, REQUEST_TIMEOUT } from "lib/anilist/scheduler";
+import { isRetryableError } from "lib/tracker";
+
+/**
+ * Anime formats considered to be a continuation of a series when walking SEQUEL relations
+ */
+const SEQUEL_FORMATS = ["TV", "TV_SHORT", "ONA"];
+
+/**
+ * Convert a Jellyfin rating to a score in the score format of a user
+ * @param rating - Jellyfin rating from 0 to 10
+ * @param format - score format of the user
+ * @return {number} the score, 0 means not scored
+ */
+function toScore(rating: number, format: ScoreFormat): number {
+  rating = Math.min(Math.max(rating, 0), 10);
+  switch (format) {
+    case "POINT_100":
+      return Math.round(rating * 10);
+    case "POINT_10_DECIMAL":
+      return Math.round(rating * 10) / 10;
+    case "POINT_10":
+      return Math.round(rating);
+    case "POINT_5":
+      return Math.round(rating / 2);
+    case "POINT_3":
+      return Math.ceil((rating * 3) / 10);
+  }
+}
 
 /**
  * Type for storing our Scrobble result
  * @property success - records if the scrobble was successful
  * @property message - message to go along with the scrobble result
  * @property level - the log level to use for the message
+ * @property retryable - records if the scrobble failed in a way that can be retried later
+ * @property update - the update sent to the tracker (or that would have been sent in dry-run mode)
  */
 export type ScrobbleResult = {
   success: boolean;
   message: string;
   level: "error" | "warn" | "info";
+  retryable?: boolean;
+  update?: ScrobbleUpdate;
 };
 
-export class AnilistScrobbler {
+/**
+ * Type for an update of a list entry
+ * @property mediaId - Anime ID of the tracker
+ * @property entryId - list entry ID of the tracker, undefined when adding a new entry
+ * @property status - new status of the entry
+ * @property progress - new progress of the entry
+ * @property score - new score of the entry, only set when a rating was synced
+ */
+export type ScrobbleUpdate = {
+  mediaId: number;
+  entryId?: number;
+  status: EntryStatus;
+  progress: number;
+  score?: number;
+};
+
+/**
+ * Type for a resolved anime and episode
+ * @property id - Anilist Anime ID
+ * @property episode - Episode number relative to the anime
+ */
+export type ResolvedEpisode = {
+  id: number;
+  episode: number;
+};
+
+/**
+ * Type for an entry on the anime lists of a user
+ * @property id - list entry ID of the tracker
+ * @property status - status of the entry
+ * @property progress - watched episodes
+ * @property repeat - number of times the anime was rewatched
+ * @property episodes - total episodes of the anime, if known
+ * @property score - score in the score format of the user, only known for anilist
+ */
+export type AnimeListEntry = {
+  id: number;
+  status: EntryStatus;
+  progress: number;
+  repeat: number;
+  episodes?: number;
+  score?: number;
+};
+
+export class AnilistScrobbler implements Tracker {
+  public readonly name: TrackerName = "anilist";
+  public readonly provider: string = "AniList";
   private api: AniList;
-  private config: Config;
+  private miniApi: AnilistMiniApi;
+  private config: AnilistConfig;
   private profileId?: number;
+  private profileName?: string;
+  private scoreFormat: ScoreFormat = "POINT_100";
+  public readonly user: string;
 
   /**
    * Scrobbler for Anilist
-   * @param config - Anilist watched configuration object
+   * @param config - Anilist configuration object for the user
+   * @param user - user key the scrobbler belongs to
    */
-  public constructor(config: Config) {
+  public constructor(config: AnilistConfig, user: string = ANY_USER) {
     this.config = config;
-    this.api = new AniList(this.config.anilist.token);
+    this.user = user;
+    this.api = new AniList(this.config.token, { timeout: REQUEST_TIMEOUT });
+    this.miniApi = new AnilistMiniApi(this.config.token);
+  }
+
+  /**
+   * Unscrobbling of episodes marked as unplayed is enabled
+   */
+  public get unscrobbleEnabled(): boolean {
+    return this.config.unscrobble;
+  }
+
+  /**
+   * Updates are only logged, not sent to anilist
+   */
+  public get dryRun(): boolean {
+    return this.config.dryRun;
+  }
+
+  /**
+   * Syncing Jellyfin ratings to the entry score is enabled
+   */
+  public get ratingSyncEnabled(): boolean {
+    return this.config.syncRatings;
+  }
+
+  /**
+   * Syncing Jellyfin favorites to anilist favourites is enabled
+   */
+  public get favouriteSyncEnabled(): boolean {
+    return this.config.syncFavourites;
+  }
+
+  /**
+   * Name of the authenticated anilist profile, undefined if not initialized
+   */
+  public get profile(): string | undefined {
+    return this.profileName;
   }
 
   /**
@@ -34,11 +163,19 @@ export class AnilistScrobbler {
    * @async
    */
   public async init(): Promise<void> {
-    const profile = await this.api.user.getAuthorized();
+    const profile = await anilistScheduler.schedule(
+      "getAuthorized",
+      async () => await this.api.user.getAuthorized(),
+    );
     if (profile.id == undefined) {
       throw new Error("Failed to authenticate to anilist.");
     } else {
       this.profileId = profile.id;
+      this.profileName = profile.name;
+      // anilist-node types the score format as a string
+      this.scoreFormat =
+        (profile.mediaListOptions?.scoreFormat as ScoreFormat | undefined) ??
+        "POINT_100";
     }
   }
 
@@ -46,36 +183,218 @@ export class AnilistScrobbler {
    * Creates an updated entry object for Anilist anime list tracking.
    * @param {number} episode - The current episode number being watched.
    * @param {number} [maxEpisodes] - Optional total number of episodes in the anime.
+   * @param {number} [repeat] - Optional repeat count of the entry, only passed when rewatching.
    * @returns {UpdateEntryOptions} An object with updated entry details.
    */
   private createUpdatedEntry(
     episode: number,
     maxEpisodes?: number,
+    repeat?: number,
   ): UpdateEntryOptions {
     const updatedEntry: Partial<UpdateEntryOptions> = {
-      status: "CURRENT",
+      status: repeat === undefined ? "CURRENT" : "REPEATING",
       progress: episode,
     };
 
     if (maxEpisodes && episode === maxEpisodes) {
       updatedEntry.status = "COMPLETED";
+      if (repeat !== undefined) updatedEntry.repeat = repeat + 1;
     }
 
     return updatedEntry as UpdateEntryOptions;
   }
 
+  /**
+   * Creates the scrobble result for an update that was not sent in dry-run mode
+   * @param mediaId - Anilist Anime ID
+   * @param entryId - Anilist list entry ID, undefined when adding a new entry
+   * @param entry - the update that would have been sent
+   * @return {ScrobbleResult} successful result describing the update
+   */
+  private createDryRunResult(
+    mediaId: number,
+    entryId: number | undefined,
+    entry: UpdateEntryOptions,
+  ): ScrobbleResult {
+    const update: ScrobbleUpdate = {
+      mediaId: mediaId,
+      entryId: entryId,
+      status: entry.status,
+      progress: entry.progress,
+    };
+
+    return {
+      success: true,
+      level: "info",
+      message: `[dry-run] Would ${entryId ? `update entry (${entryId})` : "add entry"} for anime (${mediaId}) with status ${update.status} and progress ${update.progress}.`,
+      update: update,
+    } as ScrobbleResult;
+  }
+
+  /**
+   * Get the policy for scrobbling to an entry with a given status
+   * @param status - status of the list entry
+   * @return {EntryPolicy} policy to apply
+   * @remark Rewatches restart completed anime from the first episode when enabled.
+   */
+  private getEntryPolicy(status: EntryStatus): EntryPolicy {
+    switch (status) {
+      case "CURRENT":
+        return "resume";
+      case "PLANNING":
+        return "restart";
+      case "PAUSED":
+        return this.config.paused;
+      case "DROPPED":
+        return this.config.dropped;
+      case "REPEATING":
+        return this.config.rewatch ? "resume" : "ignore";
+      case "COMPLETED":
+        return this.config.rewatch ? "restart" : "ignore";
+    }
+  }
+
+  /**
+   * Find the next season of an anime by following its SEQUEL relation
+   * @async
+   * @param id - Anilist Anime ID
+   * @return {number|undefined} Anilist Anime ID of the sequel, undefined if there is none
+   */
+  private async findSequel(id: number): Promise<number | undefined> {
+    const media = await this.miniApi.getMediaRelations(id);
+    for (const edge of media.relations.edges) {
+      if (edge.relationType != "SEQUEL" || edge.node.type != "ANIME") continue;
+      if (!SEQUEL_FORMATS.includes(edge.node.format ?? "")) continue;
+      return edge.node.id;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve the episodes of a season up to an episode to the Anilist entries they belong to
+   * @async
+   * @param id - Anilist Anime ID of the first season
+   * @param episode - Last episode number relative to the season
+   * @param season - Season number relative to the anime ID
+   * @return {ResolvedEpisode[]|undefined} resolved anime and last episode for each entry, undefined if no matching sequel was found
+   * @remark Seasons are resolved by following SEQUEL relations, episodes exceeding the episode count of
+   *         an entry overflow into its sequel (e.g. a single Jellyfin season spanning two cours).
+   */
+  public async resolveSeason(
+    id: number,
+    episode: number,
+    season: number = 1,
+  ): Promise<ResolvedEpisode[] | undefined> {
+    let resolvedId: number | undefined = id;
+    for (let i = 1; i < season && resolvedId !== undefined; i++) {
+      resolvedId = await this.findSequel(resolvedId);
+    }
+    if (resolvedId === undefined) return undefined;
+
+    const resolved: ResolvedEpisode[] = [];
+    let media = await this.miniApi.getMediaRelations(resolvedId);
+    while (media.episodes && episode > media.episodes) {
+      const sequelId = await this.findSequel(media.id);
+      if (sequelId === undefined) break;
+
+      resolved.push({ id: media.id, episode: media.episodes });
+      episode -= media.episodes;
+      media = await this.miniApi.getMediaRelations(sequelId);
+    }
+    resolved.push({ id: media.id, episode: episode });
+
+    return resolved;
+  }
+
+  /**
+   * Resolve a season and episode to the Anilist entry they belong to
+   * @async
+   * @param id - Anilist Anime ID of the first season
+   * @param episode - Episode number relative to the season
+   * @param season - Season number relative to the anime ID
+   * @return {ResolvedEpisode|undefined} resolved anime and episode, undefined if no matching sequel was found
+   */
+  public async resolveEpisode(
+    id: number,
+    episode: number,
+    season: number = 1,
+  ): Promise<ResolvedEpisode | undefined> {
+    return (await this.resolveSeason(id, episode, season))?.at(-1);
+  }
+
+  /**
+   * Get all entries on the anime lists of the user
+   * @async
+   * @return {object} list entries keyed by Anilist Anime ID
+   * @remark Downloads the complete anime lists, use getListEntry to look up a single anime.
+   */
+  public async getListEntries(): Promise<{ [id: number]: AnimeListEntry }> {
+    if (this.api == undefined || this.profileId == undefined)
+      throw new Error("Not initialized!");
+
+    const entries: { [id: number]: AnimeListEntry } = {};
+    const profileId = this.profileId;
+    const lists = await anilistScheduler.schedule(
+      "lists",
+      async () => await this.api.lists.anime(profileId),
+    );
+    for (const list of lists) {
+      // match on the entry status, list names can be translated or split and custom lists have no status
+      for (const entry of list.entries) {
+        if (entry.id == undefined) continue;
+        if (entries[entry.media.id] !== undefined) continue;
+        entries[entry.media.id] = {
+          id: entry.id,
+          // anilist-node types the entry status as a media status
+          status: entry.status as unknown as EntryStatus,
+          progress: entry.progress,
+          repeat: entry.repeat ?? 0,
+          episodes: entry.media.episodes,
+          score: entry.score,
+        };
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Get a single entry from the anime lists of the user
+   * @async
+   * @param id - Anilist Anime ID
+   * @return {AnimeListEntry|undefined} the list entry, undefined if not on the lists
+   */
+  public async getListEntry(id: number): Promise<AnimeListEntry | undefined> {
+    if (this.profileId == undefined) throw new Error("Not initialized!");
+
+    const entry = await this.miniApi.getListEntry(this.profileId, id);
+    if (entry === undefined) return undefined;
+
+    return {
+      id: entry.id,
+      status: entry.status,
+      progress: entry.progress,
+      repeat: entry.repeat ?? 0,
+      episodes: entry.media.episodes,
+      score: entry.score,
+    };
+  }
+
   /**
    * Scrobble playback to Anilist
    * @async
    * @param id - Anilist Anime ID
    * @param episode - Watched episode
-   * @param season - Watched season (we only support season 1, specials are not scrobbleable)
+   * @param season - Watched season relative to the anime ID (seasons > 1 are resolved using SEQUEL relations, specials are not scrobbleable)
+   * @param firstEpisode - First watched episode when scrobbling a range of episodes at once
    * @return {ScrobbleResult} state information on the success of the scrobbling
    */
   public async scrobble(
     id: number,
     episode: number,
     season: number = 1,
+    firstEpisode: number = episode,
   ): Promise<ScrobbleResult> {
     if (this.api == undefined || this.profileId == undefined)
       return {
@@ -84,95 +403,91 @@ export class AnilistScrobbler {
         message: "Not initialized!",
       } as ScrobbleResult;
 
-    if (season != 1)
+    if (season < 1)
       return {
         success: false,
         level: "warn",
-        message: "Can only scrobble normal episodes (season != 1)!",
+        message:
+          "Can only scrobble normal episodes (season < 1), specials need an episode level AniList ID!",
       } as ScrobbleResult;
 
     try {
-      let result: UpdatedEntry | undefined;
+      const resolved = await this.resolveEpisode(id, episode, season);
+      if (resolved === undefined)
+        return {
+          success: false,
+          level: "warn",
+          message: `Could not resolve season ${season} of anime (${id}), no matching SEQUEL relation found.`,
+        } as ScrobbleResult;
+      firstEpisode = Math.max(1, firstEpisode - (episode - resolved.episode));
+      id = resolved.id;
+      episode = resolved.episode;
+
+      let result:
+        Pick<UpdatedEntry, "id" | "status" | "progress" | "repeat"> | undefined;
       let update: { id: number; entry: UpdateEntryOptions } | undefined;
 
-      for (const list of await this.api.lists.anime(this.profileId)) {
-        if (list.name == "Watching") {
-          // only increase progress if in Watching list
-          for (const entry of list.entries) {
-            if (entry.id == undefined) continue;
-            if (entry.media.id != id) continue;
-
-            // sanity check before advancing progress
-            if (entry.progress >= episode) {
-              return {
-                success: false,
-                level: "warn",
-                message: `Skipping update for anime (${id}), anilist progress (${entry.progress}) >= current episode (${episode}).`,
-              } as ScrobbleResult;
-            } else if (
-              entry.media.episodes == undefined ||
-              entry.media.episodes < episode
-            ) {
-              return {
-                success: false,
-                level: "warn",
-                message: `Skipping update for anime (${id}), current progress (${episode}) > max episodes(${entry.media.episodes}).`,
-              } as ScrobbleResult;
-            }
+      const entry = await this.getListEntry(id);
+      if (entry !== undefined) {
+        const policy = this.getEntryPolicy(entry.status);
+        const rewatching =
+          entry.status == "REPEATING" || entry.status == "COMPLETED";
 
-            // prepare update
-            update = {
-              id: entry.id,
-              entry: this.createUpdatedEntry(episode, entry.media.episodes),
-            };
-            break;
-          }
-        } else if (list.name == "Planning") {
-          // allow Planning -> Watching if episode 1 is played
-          for (const entry of list.entries) {
-            if (entry.id == undefined) continue;
-            if (entry.media.id != id) continue;
-
-            if (episode != 1)
-              return {
-                success: false,
-                level: "warn",
-                message: `Skipping update for anime (${id}), on "Planning" list but this is not the first episode.`,
-              } as ScrobbleResult;
-
-            // prepare update
-            update = {
-              id: entry.id,
-              entry: this.createUpdatedEntry(episode, entry.media.episodes),
-            };
-            break;
+        if (policy == "ignore") {
+          return {
+            success: false,
+            level: "warn",
+            message: `Skipping update for anime (${id}), entry is ${entry.status} and ${rewatching ? "rewatch tracking is disabled" : "configured to be ignored"}.`,
+          } as ScrobbleResult;
+        } else if (policy == "restart" && firstEpisode != 1) {
+          // allow e.g. Planning -> Watching if episode 1 is played
+          return {
+            success: false,
+            level: "warn",
+            message: `Skipping update for anime (${id}), entry is ${entry.status} but this is not the first episode.`,
+          } as ScrobbleResult;
+        } else if (policy == "resume") {
+          // sanity check before advancing progress
+          if (entry.progress >= episode) {
+            return {
+              success: false,
+              level: "warn",
+              message: `Skipping update for anime (${id}), anilist progress (${entry.progress}) >= current episode (${episode}).`,
+            } as ScrobbleResult;
+          } else if (entry.episodes == undefined || entry.episodes < episode) {
+            return {
+              success: false,
+              level: "warn",
+              message: `Skipping update for anime (${id}), current progress (${episode}) > max episodes(${entry.episodes}).`,
+            } as ScrobbleResult;
           }
         }
+
+        // prepare update
+        update = {
+          id: entry.id,
+          entry: this.createUpdatedEntry(
+            episode,
+            entry.episodes,
+            rewatching ? entry.repeat : undefined,
+          ),
+        };
       }
 
-      // apply update (try 3 times)
+      // apply update, failures are retried later by the caller
       if (update) {
-        const maxAttempts = 3;
-        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-          try {
-            result = await this.api.lists.updateEntry(update.id, update.entry);
-            break;
-          } catch (error) {
-            // try again on error unless we are at maxAttempts
-            if (attempt >= maxAttempts) {
-              throw error;
-            }
-
-            await new Promise((resolve) =>
-              setTimeout(resolve, (attempt + 1) * 30 * 1000),
-            );
-          }
-        }
+        if (this.config.dryRun)
+          return this.createDryRunResult(id, update.id, update.entry);
+        const { id: entryId, entry: updatedEntry } = update;
+        result = await anilistScheduler.schedule(
+          "updateEntry",
+          async () => await this.api.lists.updateEntry(entryId, updatedEntry),
+        );
       }
 
       if (result === undefined) {
-        if (this.config.anilist.autoAdd) {
-          if (episode != 1)
+        if (this.config.autoAdd) {
+          if (firstEpisode != 1)
             return {
               success: false,
               level: "warn",
@@ -182,30 +497,52 @@ export class AnilistScrobbler {
           try {
             const updatedEntry = this.createUpdatedEntry(
               episode,
-              (await this.api.media.anime(id)).episodes,
+              (await this.miniApi.getMediaRelations(id)).episodes,
             );
-            result = await this.api.lists.addEntry(id, updatedEntry);
+            if (this.config.dryRun)
+              return this.createDryRunResult(id, undefined, updatedEntry);
+            // anilist-node cannot send the customLists array
+            result = this.config.customList
+              ? await this.miniApi.addEntry(id, updatedEntry, [
+                  this.config.customList,
+                ])
+              : await anilistScheduler.schedule(
+                  "addEntry",
+                  async () => await this.api.lists.addEntry(id, updatedEntry),
+                );
           } catch (error) {
             return {
               success: false,
               level: "error",
+              retryable: isRetryableError(error),
               message: `Anime (${id}) could not be added to list: ${error instanceof Error ? error.message : "Unknown error"}`,
-            };
+            } as ScrobbleResult;
           }
         } else {
           return {
             success: false,
             level: "warn",
-            message: `Anime (${id}) not on "Watching" or "Planning" list`,
+            message: `Anime (${id}) not on any list`,
           } as ScrobbleResult;
         }
       }
 
+      const sent: ScrobbleUpdate = {
+        mediaId: id,
+        entryId: result.id,
+        status: result.status,
+        progress: result.progress,
+      };
+
       if (result.status == "COMPLETED")
         return {
           success: true,
           level: "info",
-          message: `Anime (${id}) marked completed.`,
+          message:
+            update?.entry.repeat !== undefined
+              ? `Anime (${id}) marked completed, rewatched ${result.repeat} time(s).`
+              : `Anime (${id}) marked completed.`,
+          update: sent,
         } as ScrobbleResult;
 
       const success = result.status == "CURRENT" || result.progress == episode;
@@ -215,6 +552,250 @@ export class AnilistScrobbler {
         message: success
           ? `Anime (${id}) is ${result.status} and progess set to ${result.progress}.`
           : `API returned unexpected result: ${JSON.stringify(result)}`,
+        update: success ? sent : undefined,
+      } as ScrobbleResult;
+    } catch (error) {
+      return {
+        success: false,
+        level: "error",
+        retryable: isRetryableError(error),
+        message: `Something went wrong while connecting to anilist: ${error instanceof Error ? error.message : "Unknown error"}`,
+      } as ScrobbleResult;
+    }
+  }
+
+  /**
+   * Unscrobble an episode marked as unplayed from Anilist
+   * @async
+   * @param id - Anilist Anime ID
+   * @param episode - Unplayed episode
+   * @param season - Unplayed season relative to the anime ID
+   * @return {ScrobbleResult} state information on the success of the unscrobbling
+   * @remark Only the last watched episode is unscrobbled, progress is lowered to the previous episode
+   *         and completed anime are moved back to watching.
+   */
+  public async unscrobble(
+    id: number,
+    episode: number,
+    season: number = 1,
+  ): Promise<ScrobbleResult> {
+    if (this.api == undefined || this.profileId == undefined)
+      return {
+        success: false,
+        level: "error",
+        message: "Not initialized!",
+      } as ScrobbleResult;
+
+    if (!this.config.unscrobble)
+      return {
+        success: false,
+        level: "info",
+        message: "Unscrobbling is disabled.",
+      } as ScrobbleResult;
+
+    if (season < 1)
+      return {
+        success: false,
+        level: "warn",
+        message: "Can only unscrobble normal episodes (season < 1)!",
+      } as ScrobbleResult;
+
+    try {
+      const resolved = await this.resolveEpisode(id, episode, season);
+      if (resolved === undefined)
+        return {
+          success: false,
+          level: "warn",
+          message: `Could not resolve season ${season} of anime (${id}), no matching SEQUEL relation found.`,
+        } as ScrobbleResult;
+      id = resolved.id;
+      episode = resolved.episode;
+
+      const entry = await this.getListEntry(id);
+      if (
+        entry === undefined ||
+        (entry.status != "CURRENT" && entry.status != "COMPLETED")
+      )
+        return {
+          success: false,
+          level: "warn",
+          message: `Anime (${id}) is not CURRENT or COMPLETED`,
+        } as ScrobbleResult;
+
+      // earlier episodes are left alone, e.g. when a whole season is marked as unplayed
+      if (entry.progress != episode)
+        return {
+          success: false,
+          level: "warn",
+          message: `Skipping unscrobble for anime (${id}), anilist progress (${entry.progress}) != current episode (${episode}).`,
+        } as ScrobbleResult;
+
+      const updatedEntry = {
+        status: "CURRENT",
+        progress: episode - 1,
+      } as UpdateEntryOptions;
+      if (this.config.dryRun)
+        return this.createDryRunResult(id, entry.id, updatedEntry);
+
+      const result = await anilistScheduler.schedule(
+        "updateEntry",
+        async () => await this.api.lists.updateEntry(entry.id, updatedEntry),
+      );
+
+      const success = result.status == "CURRENT";
+      return {
+        success: success,
+        level: success ? "info" : "error",
+        message: success
+          ? `Anime (${id}) is ${result.status} and progess set to ${result.progress}.`
+          : `API returned unexpected result: ${JSON.stringify(result)}`,
+        update: success
+          ? {
+              mediaId: id,
+              entryId: result.id,
+              status: result.status,
+              progress: result.progress,
+            }
+          : undefined,
+      } as ScrobbleResult;
+    } catch (error) {
+      return {
+        success: false,
+        level: "error",
+        message: `Something went wrong while connecting to anilist: ${error instanceof Error ? error.message : "Unknown error"}`,
+      } as ScrobbleResult;
+    }
+  }
+
+  /**
+   * Set the score of an anime from a Jellyfin rating
+   * @async
+   * @param id - Anilist Anime ID
+   * @param rating - Jellyfin rating from 0 to 10
+   * @return {ScrobbleResult} state information on the success of the update
+   * @remark The rating is converted to the score format of the user, anime not on the lists are not added.
+   */
+  public async rate(id: number, rating: number): Promise<ScrobbleResult> {
+    if (this.api == undefined || this.profileId == undefined)
+      return {
+        success: false,
+        level: "error",
+        message: "Not initialized!",
+      } as ScrobbleResult;
+
+    if (!this.config.syncRatings)
+      return {
+        success: false,
+        level: "info",
+        message: "Rating sync is disabled.",
+      } as ScrobbleResult;
+
+    try {
+      const entry = await this.getListEntry(id);
+      if (entry === undefined)
+        return {
+          success: false,
+          level: "warn",
+          message: `Anime (${id}) not on any list`,
+        } as ScrobbleResult;
+
+      const score = toScore(rating, this.scoreFormat);
+      if (entry.score == score)
+        return {
+          success: true,
+          level: "info",
+          message: `Score of anime (${id}) is already ${score}.`,
+        } as ScrobbleResult;
+
+      const update: ScrobbleUpdate = {
+        mediaId: id,
+        entryId: entry.id,
+        status: entry.status,
+        progress: entry.progress,
+        score: score,
+      };
+      if (this.config.dryRun)
+        return {
+          success: true,
+          level: "info",
+          message: `[dry-run] Would set score of anime (${id}) to ${score} (${this.scoreFormat}).`,
+          update: update,
+        } as ScrobbleResult;
+
+      const result = await anilistScheduler.schedule(
+        "updateEntry",
+        async () =>
+          await this.api.lists.updateEntry(entry.id, {
+            score: score,
+          } as UpdateEntryOptions),
+      );
+
+      return {
+        success: true,
+        level: "info",
+        message: `Score of anime (${id}) set to ${result.score} (${this.scoreFormat}).`,
+        update: { ...update, score: result.score },
+      } as ScrobbleResult;
+    } catch (error) {
+      return {
+        success: false,
+        level: "error",
+        message: `Something went wrong while connecting to anilist: ${error instanceof Error ? error.message : "Unknown error"}`,
+      } as ScrobbleResult;
+    }
+  }
+
+  /**
+   * Add or remove an anime from the favourites of the user
+   * @async
+   * @param id - Anilist Anime ID
+   * @param favourite - true to add the anime to the favourites, false to remove it
+   * @return {ScrobbleResult} state information on the success of the update
+   * @remark Anilist can only toggle favourites, the current state is checked first.
+   */
+  public async favourite(
+    id: number,
+    favourite: boolean,
+  ): Promise<ScrobbleResult> {
+    if (this.api == undefined || this.profileId == undefined)
+      return {
+        success: false,
+        level: "error",
+        message: "Not initialized!",
+      } as ScrobbleResult;
+
+    if (!this.config.syncFavourites)
+      return {
+        success: false,
+        level: "info",
+        message: "Favourite sync is disabled.",
+      } as ScrobbleResult;
+
+    try {
+      if ((await this.miniApi.isFavourite(id)) == favourite)
+        return {
+          success: true,
+          level: "info",
+          message: `Anime (${id}) is already ${favourite ? "a favourite" : "not a favourite"}.`,
+        } as ScrobbleResult;
+
+      if (this.config.dryRun)
+        return {
+          success: true,
+          level: "info",
+          message: `[dry-run] Would ${favourite ? "add" : "remove"} anime (${id}) ${favourite ? "to" : "from"} favourites.`,
+        } as ScrobbleResult;
+
+      // the result only covers the first page of favourites, so it is not checked
+      await anilistScheduler.schedule(
+        "favouriteAnime",
+        async () => await this.api.media.favouriteAnime(id),
+      );
+
+      return {
+        success: true,
+        level: "info",
+        message: `Anime (${id}) ${favourite ? "added to" : "removed from"} favourites.`,
       } as ScrobbleResult;
     } catch (error) {
       return {
@@ -0,0 +1,367 @@
+import type { EntryStatus } from "anilist-node";
+import type { TrackerConfig, TrackerName } from "lib/config";
+import type {
+  AnimeListEntry,
+  ScrobbleResult,
+  ScrobbleUpdate,
+} from "lib/scrobbler";
+
+import axios from "axios";
+
+import { ANY_USER } from "lib/config";
+
+/**
+ * Check if a failed request to a tracker can be retried later
+ * @param error - error thrown by the request
+ * @return {boolean} true for network errors, timeouts, rate limits and server errors
+ * @remark Other client errors (e.g. an invalid token or an unknown anime) fail the same way on every retry.
+ */
+export function isRetryableError(error: unknown): boolean {
+  let status: number | undefined;
+  if (axios.isAxiosError(error)) {
+    status = error.response?.status;
+  } else if (error instanceof Error) {
+    // anilist-node only exposes the status in the message
+    const match = error.message.match(/returned with a (\d+) error code/);
+    if (match) status = parseInt(match[1], 10);
+  }
+
+  return (
+    status === undefined || status == 408 || status == 429 || status >= 500
+  );
+}
+
+/**
+ * Interface for a tracker backend scrobbling to the anime lists of a user
+ * @property name - name of the tracker
+ * @property provider - name of the Jellyfin provider holding the anime IDs of the tracker
+ * @property user - user key the tracker belongs to
+ * @property profile - name of the authenticated profile, undefined if not initialized
+ * @property unscrobbleEnabled - unscrobbling of episodes marked as unplayed is enabled
+ * @property dryRun - updates are only logged, not sent to the tracker
+ */
+export interface Tracker {
+  readonly name: TrackerName;
+  readonly provider: string;
+  readonly user: string;
+  readonly profile: string | undefined;
+  readonly unscrobbleEnabled: boolean;
+  readonly dryRun: boolean;
+
+  /**
+   * Authenticate to the tracker
+   * @async
+   */
+  init(): Promise<void>;
+
+  /**
+   * Get a single entry from the anime lists of the user
+   * @async
+   * @param id - Anime ID of the tracker
+   * @return {AnimeListEntry|undefined} the list entry, undefined if not on the lists
+   */
+  getListEntry(id: number): Promise<AnimeListEntry | undefined>;
+
+  /**
+   * Scrobble playback to the tracker
+   * @async
+   * @param id - Anime ID of the tracker
+   * @param episode - Watched episode
+   * @param season - Watched season relative to the anime ID
+   * @param firstEpisode - First watched episode when scrobbling a range of episodes at once
+   * @return {ScrobbleResult} state information on the success of the scrobbling
+   */
+  scrobble(
+    id: number,
+    episode: number,
+    season?: number,
+    firstEpisode?: number,
+  ): Promise<ScrobbleResult>;
+
+  /**
+   * Unscrobble an episode marked as unplayed from the tracker
+   * @async
+   * @param id - Anime ID of the tracker
+   * @param episode - Unplayed episode
+   * @param season - Unplayed season relative to the anime ID
+   * @return {ScrobbleResult} state information on the success of the unscrobbling
+   */
+  unscrobble(
+    id: number,
+    episode: number,
+    season?: number,
+  ): Promise<ScrobbleResult>;
+}
+
+export abstract class ListTracker implements Tracker {
+  public abstract readonly name: TrackerName;
+  public abstract readonly provider: string;
+  protected config: TrackerConfig;
+  protected profileName?: string;
+  public readonly user: string;
+
+  /**
+   * Base for trackers with a plain watching/completed list, without seasons or rewatches
+   * @class
+   * @param config - tracker configuration object for the user
+   * @param user - user key the tracker belongs to
+   * @remark Only the first season of a series level ID can be scrobbled, later seasons need their own provider ID in Jellyfin.
+   */
+  public constructor(config: TrackerConfig, user: string = ANY_USER) {
+    this.config = config;
+    this.user = user;
+  }
+
+  /**
+   * Unscrobbling of episodes marked as unplayed is enabled
+   */
+  public get unscrobbleEnabled(): boolean {
+    return this.config.unscrobble;
+  }
+
+  /**
+   * Updates are only logged, not sent to the tracker
+   */
+  public get dryRun(): boolean {
+    return this.config.dryRun;
+  }
+
+  /**
+   * Name of the authenticated profile, undefined if not initialized
+   */
+  public get profile(): string | undefined {
+    return this.profileName;
+  }
+
+  public abstract init(): Promise<void>;
+
+  public abstract getListEntry(id: number): Promise<AnimeListEntry | undefined>;
+
+  /**
+   * Get the total number of episodes of an anime
+   * @async
+   * @param id - Anime ID of the tracker
+   * @return {number|undefined} episode count, undefined if unknown
+   */
+  protected abstract getEpisodes(id: number): Promise<number | undefined>;
+
+  /**
+   * Add or update a list entry
+   * @async
+   * @param id - Anime ID of the tracker
+   * @param entryId - list entry ID, undefined when adding a new entry
+   * @param status - new status of the entry
+   * @param progress - new progress of the entry
+   * @return {ScrobbleUpdate} the saved entry
+   */
+  protected abstract saveEntry(
+    id: number,
+    entryId: number | undefined,
+    status: EntryStatus,
+    progress: number,
+  ): Promise<ScrobbleUpdate>;
+
+  /**
+   * Save an update, or describe it in dry-run mode
+   * @async
+   * @param update - the update to send
+   * @return {ScrobbleResult} result describing the saved entry
+   */
+  private async sendUpdate(update: ScrobbleUpdate): Promise<ScrobbleResult> {
+    if (this.config.dryRun)
+      return {
+        success: true,
+        level: "info",
+        message: `[dry-run] Would ${update.entryId ? `update entry (${update.entryId})` : "add entry"} for anime (${update.mediaId}) on ${this.name} with status ${update.status} and progress ${update.progress}.`,
+        update: update,
+      } as ScrobbleResult;
+
+    const sent = await this.saveEntry(
+      update.mediaId,
+      update.entryId,
+      update.status,
+      update.progress,
+    );
+    return {
+      success: true,
+      level: "info",
+      message:
+        sent.status == "COMPLETED"
+          ? `Anime (${sent.mediaId}) marked completed on ${this.name}.`
+          : `Anime (${sent.mediaId}) is ${sent.status} on ${this.name} and progess set to ${sent.progress}.`,
+      update: sent,
+    } as ScrobbleResult;
+  }
+
+  /**
+   * Scrobble playback to the tracker
+   * @async
+   * @param id - Anime ID of the tracker
+   * @param episode - Watched episode
+   * @param season - Watched season relative to the anime ID, only the first season is scrobbleable
+   * @param firstEpisode - First watched episode when scrobbling a range of episodes at once
+   * @return {ScrobbleResult} state information on the success of the scrobbling
+   */
+  public async scrobble(
+    id: number,
+    episode: number,
+    season: number = 1,
+    firstEpisode: number = episode,
+  ): Promise<ScrobbleResult> {
+    if (this.profileName === undefined)
+      return {
+        success: false,
+        level: "error",
+        message: "Not initialized!",
+      } as ScrobbleResult;
+
+    if (season != 1)
+      return {
+        success: false,
+        level: "warn",
+        message: `Can only scrobble the first season to ${this.name}, set the ${this.provider} ID on season ${season} in Jellyfin!`,
+      } as ScrobbleResult;
+
+    try {
+      const entry = await this.getListEntry(id);
+      if (entry === undefined) {
+        if (!this.config.autoAdd)
+          return {
+            success: false,
+            level: "warn",
+            message: `Anime (${id}) not on any ${this.name} list`,
+          } as ScrobbleResult;
+        if (firstEpisode != 1)
+          return {
+            success: false,
+            level: "warn",
+            message: `Skipping add anime (${id}) to ${this.name}, this is not the first episode.`,
+          } as ScrobbleResult;
+
+        const episodes = await this.getEpisodes(id);
+        return await this.sendUpdate({
+          mediaId: id,
+          status: episode === episodes ? "COMPLETED" : "CURRENT",
+          progress: episode,
+        });
+      }
+
+      if (entry.status == "PLANNING") {
+        // allow Planning -> Watching if episode 1 is played
+        if (firstEpisode != 1)
+          return {
+            success: false,
+            level: "warn",
+            message: `Skipping update for anime (${id}) on ${this.name}, entry is ${entry.status} but this is not the first episode.`,
+          } as ScrobbleResult;
+      } else if (entry.status == "CURRENT") {
+        // sanity check before advancing progress
+        if (entry.progress >= episode)
+          return {
+            success: false,
+            level: "warn",
+            message: `Skipping update for anime (${id}), ${this.name} progress (${entry.progress}) >= current episode (${episode}).`,
+          } as ScrobbleResult;
+        if (entry.episodes !== undefined && entry.episodes < episode)
+          return {
+            success: false,
+            level: "warn",
+            message: `Skipping update for anime (${id}) on ${this.name}, current progress (${episode}) > max episodes(${entry.episodes}).`,
+          } as ScrobbleResult;
+      } else {
+        return {
+          success: false,
+          level: "warn",
+          message: `Skipping update for anime (${id}) on ${this.name}, entry is ${entry.status}.`,
+        } as ScrobbleResult;
+      }
+
+      return await this.sendUpdate({
+        mediaId: id,
+        entryId: entry.id,
+        status: episode === entry.episodes ? "COMPLETED" : "CURRENT",
+        progress: episode,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        level: "error",
+        retryable: isRetryableError(error),
+        message: `Something went wrong while connecting to ${this.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      } as ScrobbleResult;
+    }
+  }
+
+  /**
+   * Unscrobble an episode marked as unplayed from the tracker
+   * @async
+   * @param id - Anime ID of the tracker
+   * @param episode - Unplayed episode
+   * @param season - Unplayed season relative to the anime ID, only the first season is unscrobbleable
+   * @return {ScrobbleResult} state information on the success of the unscrobbling
+   * @remark Only the last watched episode is unscrobbled, progress is lowered to the previous episode
+   *         and completed anime are moved back to watching.
+   */
+  public async unscrobble(
+    id: number,
+    episode: number,
+    season: number = 1,
+  ): Promise<ScrobbleResult> {
+    if (this.profileName === undefined)
+      return {
+        success: false,
+        level: "error",
+        message: "Not initialized!",
+      } as ScrobbleResult;
+
+    if (!this.config.unscrobble)
+      return {
+        success: false,
+        level: "info",
+        message: "Unscrobbling is disabled.",
+      } as ScrobbleResult;
+
+    if (season != 1)
+      return {
+        success: false,
+        level: "warn",
+        message: `Can only unscrobble the first season from ${this.name}!`,
+      } as ScrobbleResult;
+
+    try {
+      const entry = await this.getListEntry(id);
+      if (
+        entry === undefined ||
+        (entry.status != "CURRENT" && entry.status != "COMPLETED")
+      )
+        return {
+          success: false,
+          level: "warn",
+          message: `Anime (${id}) is not CURRENT or COMPLETED on ${this.name}`,
+        } as ScrobbleResult;
+
+      // earlier episodes are left alone, e.g. when a whole season is marked as unplayed
+      if (entry.progress != episode)
+        return {
+          success: false,
+          level: "warn",
+          message: `Skipping unscrobble for anime (${id}), ${this.name} progress (${entry.progress}) != current episode (${episode}).`,
+        } as ScrobbleResult;
+
+      return await this.sendUpdate({
+        mediaId: id,
+        entryId: entry.id,
+        status: "CURRENT",
+        progress: episode - 1,
+      });
+    } catch (error) {
+      return {
+        success: false,
+        level: "error",
+        message: `Something went wrong while connecting to ${this.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+      } as ScrobbleResult;
+    }
+  }
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab
@@ -0,0 +1,91 @@
+import type { UserTrackerConfigs } from "lib/config";
+import type { Tracker } from "lib/tracker";
+import type { QueueRetryHandler } from "lib/queue";
+import type { ScrobbleResult } from "lib/scrobbler";
+
+import { ANY_USER } from "lib/config";
+import { AnilistScrobbler } from "lib/scrobbler";
+import { MyAnimeListTracker } from "lib/myanimelist/tracker";
+import { KitsuTracker } from "lib/kitsu/tracker";
+
+/**
+ * Create the trackers enabled for a user
+ * @param configs - configuration of the enabled trackers of the user
+ * @param user - user key the trackers belong to
+ * @param dryRun - force dry-run mode for all trackers
+ * @return {Tracker[]} uninitialized trackers, in the order anilist, myanimelist, kitsu
+ */
+export function createTrackers(
+  configs: UserTrackerConfigs,
+  user: string = ANY_USER,
+  dryRun: boolean = false,
+): Tracker[] {
+  const trackers: Tracker[] = [];
+  if (configs.anilist !== undefined)
+    trackers.push(
+      new AnilistScrobbler(
+        { ...configs.anilist, dryRun: dryRun || configs.anilist.dryRun },
+        user,
+      ),
+    );
+  if (configs.myanimelist !== undefined)
+    trackers.push(
+      new MyAnimeListTracker(
+        {
+          ...configs.myanimelist,
+          dryRun: dryRun || configs.myanimelist.dryRun,
+        },
+        user,
+      ),
+    );
+  if (configs.kitsu !== undefined)
+    trackers.push(
+      new KitsuTracker(
+        { ...configs.kitsu, dryRun: dryRun || configs.kitsu.dryRun },
+        user,
+      ),
+    );
+
+  return trackers;
+}
+
+/**
+ * Create the handler retrying queued scrobbles with the trackers of each user
+ * @param trackers - enabled trackers keyed by user
+ * @return {QueueRetryHandler} handler for the scrobble queue
+ * @remark Items of trackers in dry-run mode are skipped so they stay queued, items of trackers that
+ *         failed to initialize are kept for a later attempt and items of unmapped users or disabled
+ *         trackers are discarded.
+ */
+export function createRetryHandler(trackers: {
+  [user: string]: Tracker[];
+}): QueueRetryHandler {
+  return async (item) => {
+    const tracker = trackers[item.user]?.find(
+      (t) => t.name == (item.tracker ?? "anilist"),
+    );
+    if (tracker?.dryRun) return undefined;
+    if (tracker !== undefined && tracker.profile === undefined)
+      return {
+        success: false,
+        level: "warn",
+        retryable: true,
+        message: `${tracker.name} failed to initialize for user ${item.user}, keeping scrobble queued.`,
+      } as ScrobbleResult;
+    if (tracker === undefined)
+      return {
+        success: false,
+        level: "warn",
+        message: `Discarding scrobble for user ${item.user}, user is no longer mapped or ${item.tracker ?? "anilist"} is no longer enabled.`,
+      } as ScrobbleResult;
+
+    return await tracker.scrobble(
+      item.anilistId,
+      item.episode,
+      item.season,
+      item.firstEpisode ?? item.episode,
+    );
+  };
+}
+
+// vim: tabstop=2 shiftwidth=2 softtabstop=0 smarttab expandtab